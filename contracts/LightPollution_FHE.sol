@@ -1,62 +1,365 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract LightPollution_FHE is SepoliaConfig {
     struct EncryptedObservation {
         uint256 observerId;
-        euint32 encryptedBrightness;    // Encrypted sky brightness measurement
+        euint32 encryptedBrightness;    // Encrypted sky quality, mag/arcsec² x 100
         euint32 encryptedLatitude;      // Encrypted latitude coordinate
         euint32 encryptedLongitude;     // Encrypted longitude coordinate
         euint32 encryptedTimestamp;     // Encrypted observation time
+        euint32 encryptedBortle;        // Encrypted Bortle class 1-9, 0 if not given
+        euint32 encryptedNelm;          // Encrypted naked-eye limiting magnitude x 10, 0 if not given
+        euint32 encryptedCloudCover;    // Encrypted cloud cover percentage
         uint256 submissionTime;
+        address submitter;
+        uint8 qualityFlags;             // Public QUALITY_* bits from the contributor's ephemeris check
     }
     
     struct DecryptedObservation {
-        float brightness;
-        float latitude;
-        float longitude;
+        uint32 brightness;
+        uint32 latitude;
+        uint32 longitude;
         uint256 timestamp;
+        uint32 bortle;
+        uint32 nelm;
+        uint32 cloudCover;
         bool isRevealed;
     }
+    
+    struct RegionAverage {
+        uint32 average;
+        uint32 sampleCount;             // Region sample count the average was computed over
+        uint32 requestedSampleCount;    // Sample count of the most recent reveal request
+        uint256 revealedAt;
+        bool isRevealed;
+        bool isPending;
+    }
+    
+    // One reading of a batch; every handle is covered by the batch's shared input proof
+    struct ObservationInput {
+        externalEuint32 brightness;
+        externalEuint32 latitude;
+        externalEuint32 longitude;
+        externalEuint32 timestamp;
+        externalEuint32 bortle;
+        externalEuint32 nelm;
+        externalEuint32 cloudCover;
+        string regionCode;
+        uint8 qualityFlags;
+    }
+    
+    struct RegionTrend {
+        uint16 fromYear;
+        uint16 toYear;
+        bool darker;                    // Average sky quality rose, i.e. the sky got darker
+        uint32 change;                  // |later - earlier| average, mag/arcsec² x 100
+        uint32 fromSamples;             // Period sample counts the trend was computed over
+        uint32 toSamples;
+        uint32 requestedFromSamples;    // Period sample counts of the most recent reveal request
+        uint32 requestedToSamples;
+        uint256 revealedAt;
+        bool isRevealed;
+        bool isPending;
+    }
+    
+    struct ThresholdAlert {
+        bool breached;                  // Regional average was below the owner's threshold
+        uint32 sampleCount;             // Region sample count of the last revealed evaluation
+        uint32 requestedSampleCount;    // Region sample count of the most recent evaluation
+        uint256 evaluatedAt;
+        bool isEvaluated;
+        bool isPending;
+    }
+    
+    // Per-region values are packed by position in the region set to avoid dynamic storage arrays
+    struct Ranking {
+        uint64 ranks;                   // Byte i: rank of region i, 1 = darkest; equal averages share a rank
+        uint256 sampleCounts;           // Bits 32·i: sample count region i was ranked over
+        uint32 sampleTotal;             // Combined sample count of the revealed ranks
+        uint32 requestedSampleTotal;    // Combined sample count of the most recent request
+        uint256 revealedAt;
+        bool isRevealed;
+        bool isPending;
+    }
+    
+    enum ModerationStatus { Pending, Verified, Rejected }
+    
+    struct Moderation {
+        ModerationStatus status;
+        uint32 approvals;               // Approvals from current verifiers, frozen once decided
+        address[] approvers;            // Everyone who approved; removed verifiers stop counting
+        uint256 decidedAt;
+        address rejectedBy;
+        string rejectionReason;
+    }
+    
+    // Averages over fewer samples would expose individual readings
+    uint32 public constant MIN_REGION_SAMPLES = 3;
+    
+    // A difference between two small averages is mostly noise, so trends need more samples per period
+    uint32 public constant MIN_TREND_SAMPLES = 5;
+    
+    // Self-reported: location and time are encrypted, so the contract cannot recheck them
+    uint8 public constant QUALITY_TWILIGHT = 1;
+    uint8 public constant QUALITY_MOONLIT = 2;
+    
+    // An input proof covers at most 2048 bits, i.e. nine readings of seven euint32 values. Even
+    // with a threshold check due on every reading (two adds, a div and a lt, ~805k HCU each)
+    // a full batch uses ~7.3M of the 20M HCU per transaction
+    uint32 public constant MAX_BATCH_SIZE = 9;
+    
+    // Ranking n regions takes n·(n-1) encrypted comparisons
+    uint32 public constant MAX_RANKING_SIZE = 8;
+    
+    address public admin;
+    mapping(address => bool) public isVerifier;
+    uint32 public verifierCount;
+    uint32 public verificationQuorum = 1;   // Approvals needed before an observation is verified
+    
+    mapping(uint256 => Moderation) private moderations;
+    mapping(uint256 => mapping(address => bool)) public hasApproved;
 
     uint256 public observationCount;
     mapping(uint256 => EncryptedObservation) public encryptedObservations;
     mapping(uint256 => DecryptedObservation) public decryptedObservations;
     
-    mapping(string => euint32) private encryptedRegionStats;
+    mapping(string => euint32) private encryptedRegionStats;   // Encrypted brightness sum per region
+    mapping(string => uint32) public regionObservationCount;
     string[] private regionList;
     
+    mapping(string => euint32) private encryptedRegionAverages;
+    mapping(string => RegionAverage) public regionAverages;
+    
+    // Periods are UTC calendar years of the public submission time; observation times stay encrypted
+    mapping(string => mapping(uint16 => euint32)) private encryptedPeriodSums;
+    mapping(string => mapping(uint16 => uint32)) public periodObservationCount;
+    mapping(string => uint16[]) private regionPeriods;
+    mapping(bytes32 => RegionTrend) private regionTrends;
+    
+    // Region owners (e.g. dark-sky reserve managers) keep an encrypted minimum sky quality
+    mapping(string => address) public regionOwners;
+    mapping(string => euint32) private encryptedThresholds;
+    mapping(string => ThresholdAlert) public thresholdAlerts;
+    
+    // Sample count of the last aggregate reveal of each region, whichever feature made it: an
+    // average, trend, threshold evaluation or ranking one sample apart would isolate that sample
+    mapping(string => uint32) public regionRevealedSamples;
+    mapping(bytes32 => Ranking) private rankings;
+    
     mapping(uint256 => uint256) private requestToObservationId;
+    mapping(uint256 => string) private requestToRegion;
+    mapping(uint256 => uint32) private requestToSampleCount;
+    mapping(string => uint256) private latestRegionRequest;     // Answers to any other request are stale
+    // Kept apart from requestToRegion so one callback cannot consume another's request
+    mapping(uint256 => bytes32) private requestToTrend;
+    mapping(uint256 => string) private requestToTrendRegion;
+    mapping(uint256 => uint32[2]) private requestToTrendSamples;
+    mapping(bytes32 => uint256) private latestTrendRequest;
+    mapping(uint256 => string) private requestToAlertRegion;
+    mapping(uint256 => uint32) private requestToAlertSamples;
+    mapping(uint256 => bytes32) private requestToRanking;
+    mapping(uint256 => uint256) private requestToRankingSamples;   // Packed like Ranking.sampleCounts
     
     event ObservationSubmitted(uint256 indexed id, uint256 submissionTime);
-    event DecryptionRequested(uint256 indexed id);
+    event DecryptionRequested(uint256 indexed id, uint256 requestId);
     event ObservationDecrypted(uint256 indexed id);
     event PollutionMapUpdated(uint256 indexed regionId);
+    event RegionDecryptionRequested(uint256 indexed regionId, uint256 requestId);
+    event RegionAverageDecrypted(uint256 indexed regionId, uint32 average, uint32 sampleCount);
+    event TrendDecryptionRequested(uint256 indexed regionId, uint16 fromYear, uint16 toYear, uint256 requestId);
+    event RegionTrendDecrypted(uint256 indexed regionId, uint16 fromYear, uint16 toYear, bool darker, uint32 change);
+    event RegionOwnerSet(uint256 indexed regionId, string regionCode, address indexed owner);
+    event ThresholdSet(uint256 indexed regionId, string regionCode);
+    event ThresholdEvaluationRequested(uint256 indexed regionId, uint256 requestId);
+    event ThresholdEvaluated(uint256 indexed regionId, string regionCode, bool breached, uint32 sampleCount);
+    event RankingRequested(bytes32 indexed rankingKey, string[] regionCodes, uint256 requestId);
+    event RankingDecrypted(bytes32 indexed rankingKey, uint64 ranks);   // Packed like Ranking.ranks
+    event VerifierAdded(address indexed verifier);
+    event VerifierRemoved(address indexed verifier);
+    event VerificationQuorumUpdated(uint32 quorum);
+    event ObservationApproved(uint256 indexed id, address indexed verifier, uint32 approvals);
+    event ObservationVerified(uint256 indexed id);
+    event ObservationRejected(uint256 indexed id, address indexed verifier, string reason);
     
-    modifier onlyObserver(uint256 observerId) {
+    // Only aggregates are published on anyone else's behalf; a single reading is its submitter's to reveal
+    modifier onlyObserver(uint256 observationId) {
+        address submitter = encryptedObservations[observationId].submitter;
+        require(submitter != address(0), "Observation not found");
+        require(msg.sender == submitter, "Only observer");
         _;
     }
     
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Only admin");
+        _;
+    }
+    
+    modifier onlyRegionOwner(string memory regionCode) {
+        require(msg.sender == regionOwners[regionCode], "Only region owner");
+        _;
+    }
+    
+    modifier onlyVerifier() {
+        require(isVerifier[msg.sender], "Only verifier");
+        _;
+    }
+    
+    modifier onlyPendingReview(uint256 observationId) {
+        address submitter = encryptedObservations[observationId].submitter;
+        require(submitter != address(0), "Observation not found");
+        require(submitter != msg.sender, "Cannot moderate own observation");
+        require(moderations[observationId].status == ModerationStatus.Pending, "Already moderated");
+        _;
+    }
+    
+    constructor() {
+        admin = msg.sender;
+    }
+    
+    function addVerifier(address verifier) public onlyAdmin {
+        require(verifier != address(0), "Invalid verifier");
+        require(!isVerifier[verifier], "Already verifier");
+        isVerifier[verifier] = true;
+        verifierCount += 1;
+        emit VerifierAdded(verifier);
+    }
+    
+    function removeVerifier(address verifier) public onlyAdmin {
+        require(isVerifier[verifier], "Not a verifier");
+        // With a quorum of one the last verifier can go; nothing can be approved until one is added
+        require(verificationQuorum < verifierCount || verificationQuorum == 1, "Lower the quorum first");
+        isVerifier[verifier] = false;
+        verifierCount -= 1;
+        emit VerifierRemoved(verifier);
+    }
+    
+    function setVerificationQuorum(uint32 quorum) public onlyAdmin {
+        require(quorum > 0 && quorum <= verifierCount, "Invalid quorum");
+        verificationQuorum = quorum;
+        emit VerificationQuorumUpdated(quorum);
+    }
+    
+    // The zero address unassigns a region; its threshold stays but can no longer be changed
+    function setRegionOwner(string memory regionCode, address owner) public onlyAdmin {
+        regionOwners[regionCode] = owner;
+        emit RegionOwnerSet(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), regionCode, owner);
+    }
+    
+    // The threshold is the minimum acceptable average sky quality, mag/arcsec² x 100
+    function setRegionThreshold(
+        string memory regionCode,
+        externalEuint32 thresholdHandle,
+        bytes calldata inputProof
+    ) public onlyRegionOwner(regionCode) {
+        encryptedThresholds[regionCode] = _importHandle(thresholdHandle, inputProof);
+        emit ThresholdSet(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), regionCode);
+    }
+    
+    function approveObservation(uint256 observationId) public onlyVerifier onlyPendingReview(observationId) {
+        require(!hasApproved[observationId][msg.sender], "Already approved");
+        
+        Moderation storage m = moderations[observationId];
+        hasApproved[observationId][msg.sender] = true;
+        m.approvers.push(msg.sender);
+        m.approvals = _currentApprovals(m);
+        emit ObservationApproved(observationId, msg.sender, m.approvals);
+        
+        if (m.approvals >= verificationQuorum) {
+            m.status = ModerationStatus.Verified;
+            m.decidedAt = block.timestamp;
+            emit ObservationVerified(observationId);
+        }
+    }
+    
+    // A single verifier can reject; the reason is kept on-chain for the contributor
+    function rejectObservation(uint256 observationId, string memory reason) public onlyVerifier onlyPendingReview(observationId) {
+        require(bytes(reason).length > 0, "Reason required");
+        
+        Moderation storage m = moderations[observationId];
+        m.status = ModerationStatus.Rejected;
+        m.decidedAt = block.timestamp;
+        m.rejectedBy = msg.sender;
+        m.rejectionReason = reason;
+        emit ObservationRejected(observationId, msg.sender, reason);
+    }
+    
     function submitEncryptedObservation(
-        euint32 encryptedBrightness,
-        euint32 encryptedLatitude,
-        euint32 encryptedLongitude,
-        euint32 encryptedTimestamp,
-        string memory regionCode
+        externalEuint32 brightnessHandle,
+        externalEuint32 latitudeHandle,
+        externalEuint32 longitudeHandle,
+        externalEuint32 timestampHandle,
+        externalEuint32 bortleHandle,
+        externalEuint32 nelmHandle,
+        externalEuint32 cloudCoverHandle,
+        bytes calldata inputProof,
+        string memory regionCode,
+        uint8 qualityFlags
+    ) public {
+        // Verify the relayer-produced input proof and bind the ciphertexts to this contract
+        _storeObservation(
+            [
+                _importHandle(brightnessHandle, inputProof),
+                _importHandle(latitudeHandle, inputProof),
+                _importHandle(longitudeHandle, inputProof),
+                _importHandle(timestampHandle, inputProof),
+                _importHandle(bortleHandle, inputProof),
+                _importHandle(nelmHandle, inputProof),
+                _importHandle(cloudCoverHandle, inputProof)
+            ],
+            regionCode,
+            qualityFlags
+        );
+    }
+    
+    // Loggers upload many readings at once; one proof and one transaction cover the whole batch
+    function submitEncryptedObservationBatch(
+        ObservationInput[] calldata observations,
+        bytes calldata inputProof
     ) public {
+        require(observations.length > 0, "No observations");
+        require(observations.length <= MAX_BATCH_SIZE, "Batch too large");
+        
+        for (uint i = 0; i < observations.length; i++) {
+            ObservationInput calldata obs = observations[i];
+            _storeObservation(
+                [
+                    _importHandle(obs.brightness, inputProof),
+                    _importHandle(obs.latitude, inputProof),
+                    _importHandle(obs.longitude, inputProof),
+                    _importHandle(obs.timestamp, inputProof),
+                    _importHandle(obs.bortle, inputProof),
+                    _importHandle(obs.nelm, inputProof),
+                    _importHandle(obs.cloudCover, inputProof)
+                ],
+                obs.regionCode,
+                obs.qualityFlags
+            );
+        }
+    }
+    
+    // Values are in submitEncryptedObservation argument order
+    function _storeObservation(euint32[7] memory values, string memory regionCode, uint8 qualityFlags) private {
+        require(qualityFlags <= (QUALITY_TWILIGHT | QUALITY_MOONLIT), "Unknown quality flags");
+        
         observationCount += 1;
         uint256 newId = observationCount;
         
         encryptedObservations[newId] = EncryptedObservation({
             observerId: newId,
-            encryptedBrightness: encryptedBrightness,
-            encryptedLatitude: encryptedLatitude,
-            encryptedLongitude: encryptedLongitude,
-            encryptedTimestamp: encryptedTimestamp,
-            submissionTime: block.timestamp
+            encryptedBrightness: values[0],
+            encryptedLatitude: values[1],
+            encryptedLongitude: values[2],
+            encryptedTimestamp: values[3],
+            encryptedBortle: values[4],
+            encryptedNelm: values[5],
+            encryptedCloudCover: values[6],
+            submissionTime: block.timestamp,
+            submitter: msg.sender,
+            qualityFlags: qualityFlags
         });
         
         decryptedObservations[newId] = DecryptedObservation({
@@ -64,31 +367,62 @@ contract LightPollution_FHE is SepoliaConfig {
             latitude: 0,
             longitude: 0,
             timestamp: 0,
+            bortle: 0,
+            nelm: 0,
+            cloudCover: 0,
             isRevealed: false
         });
         
-        if (!FHE.isInitialized(encryptedRegionStats[regionCode])) {
-            encryptedRegionStats[regionCode] = FHE.asEuint32(0);
-            regionList.push(regionCode);
+        // Twilight and moonlit readings are kept but would skew the regional averages
+        if (qualityFlags == 0) {
+            if (!FHE.isInitialized(encryptedRegionStats[regionCode])) {
+                encryptedRegionStats[regionCode] = FHE.asEuint32(0);
+                regionList.push(regionCode);
+            }
+            
+            encryptedRegionStats[regionCode] = FHE.add(encryptedRegionStats[regionCode], values[0]);
+            FHE.allowThis(encryptedRegionStats[regionCode]);
+            regionObservationCount[regionCode] += 1;
+            
+            uint16 year = _yearOf(block.timestamp);
+            if (!FHE.isInitialized(encryptedPeriodSums[regionCode][year])) {
+                encryptedPeriodSums[regionCode][year] = FHE.asEuint32(0);
+                regionPeriods[regionCode].push(year);
+            }
+            encryptedPeriodSums[regionCode][year] = FHE.add(encryptedPeriodSums[regionCode][year], values[0]);
+            FHE.allowThis(encryptedPeriodSums[regionCode][year]);
+            periodObservationCount[regionCode][year] += 1;
+            
+            _evaluateThreshold(regionCode);
         }
         
         emit ObservationSubmitted(newId, block.timestamp);
     }
     
-    function requestObservationDecryption(uint256 observationId) public onlyObserver(encryptedObservations[observationId].observerId) {
+    // Lets the contract compute on the value and the contributor user-decrypt it without a public reveal
+    function _importHandle(externalEuint32 handle, bytes calldata inputProof) private returns (euint32 value) {
+        value = FHE.fromExternal(handle, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+    }
+    
+    function requestObservationDecryption(uint256 observationId) public onlyObserver(observationId) {
         EncryptedObservation storage obs = encryptedObservations[observationId];
         require(!decryptedObservations[observationId].isRevealed, "Already decrypted");
         
-        bytes32[] memory ciphertexts = new bytes32[](4);
+        bytes32[] memory ciphertexts = new bytes32[](7);
         ciphertexts[0] = FHE.toBytes32(obs.encryptedBrightness);
         ciphertexts[1] = FHE.toBytes32(obs.encryptedLatitude);
         ciphertexts[2] = FHE.toBytes32(obs.encryptedLongitude);
         ciphertexts[3] = FHE.toBytes32(obs.encryptedTimestamp);
+        ciphertexts[4] = FHE.toBytes32(obs.encryptedBortle);
+        ciphertexts[5] = FHE.toBytes32(obs.encryptedNelm);
+        ciphertexts[6] = FHE.toBytes32(obs.encryptedCloudCover);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptObservation.selector);
         requestToObservationId[reqId] = observationId;
         
-        emit DecryptionRequested(observationId);
+        emit DecryptionRequested(observationId, reqId);
     }
     
     function decryptObservation(
@@ -99,18 +433,28 @@ contract LightPollution_FHE is SepoliaConfig {
         uint256 observationId = requestToObservationId[requestId];
         require(observationId != 0, "Invalid request");
         
-        EncryptedObservation storage eObs = encryptedObservations[observationId];
         DecryptedObservation storage dObs = decryptedObservations[observationId];
         require(!dObs.isRevealed, "Already decrypted");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        float[] memory results = abi.decode(cleartexts, (float[]));
+        (
+            uint32 brightness,
+            uint32 latitude,
+            uint32 longitude,
+            uint32 timestamp,
+            uint32 bortle,
+            uint32 nelm,
+            uint32 cloudCover
+        ) = abi.decode(cleartexts, (uint32, uint32, uint32, uint32, uint32, uint32, uint32));
         
-        dObs.brightness = results[0];
-        dObs.latitude = results[1];
-        dObs.longitude = results[2];
-        dObs.timestamp = uint256(results[3]);
+        dObs.brightness = brightness;
+        dObs.latitude = latitude;
+        dObs.longitude = longitude;
+        dObs.timestamp = timestamp;
+        dObs.bortle = bortle;
+        dObs.nelm = nelm;
+        dObs.cloudCover = cloudCover;
         dObs.isRevealed = true;
         
         emit ObservationDecrypted(observationId);
@@ -121,36 +465,467 @@ contract LightPollution_FHE is SepoliaConfig {
         
         euint32 regionalAvg = FHE.div(
             encryptedRegionStats[regionCode],
-            FHE.asEuint32(uint32(observationCount))
+            regionObservationCount[regionCode]
         );
+        FHE.allowThis(regionalAvg);
+        encryptedRegionAverages[regionCode] = regionalAvg;
         
         emit PollutionMapUpdated(bytes32ToUint(keccak256(abi.encodePacked(regionCode))));
         
         return regionalAvg;
     }
     
+    // Two reveals one sample apart would leak that sample by differencing; revealing again
+    // at the same sample count only aggregates samples that were already covered
+    function _claimReveal(string memory regionCode, uint32 sampleCount) private {
+        uint32 revealed = regionRevealedSamples[regionCode];
+        require(
+            sampleCount == revealed || sampleCount >= revealed + MIN_REGION_SAMPLES,
+            "Not enough new samples"
+        );
+        regionRevealedSamples[regionCode] = sampleCount;
+    }
+    
+    function requestRegionAverageDecryption(string memory regionCode) public {
+        uint32 sampleCount = regionObservationCount[regionCode];
+        require(sampleCount >= MIN_REGION_SAMPLES, "Not enough samples");
+        RegionAverage storage avg = regionAverages[regionCode];
+        require(!avg.isRevealed || avg.sampleCount != sampleCount, "Already revealed");
+        _claimReveal(regionCode, sampleCount);
+        
+        euint32 regionalAvg = calculateRegionalBrightness(regionCode);
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(regionalAvg);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptRegionAverage.selector);
+        requestToRegion[reqId] = regionCode;
+        requestToSampleCount[reqId] = sampleCount;
+        latestRegionRequest[regionCode] = reqId;
+        avg.requestedSampleCount = sampleCount;
+        avg.isPending = true;
+        
+        emit RegionDecryptionRequested(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), reqId);
+    }
+    
+    function decryptRegionAverage(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        string memory regionCode = requestToRegion[requestId];
+        require(bytes(regionCode).length != 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        uint32 average = abi.decode(cleartexts, (uint32));
+        uint32 sampleCount = requestToSampleCount[requestId];
+        delete requestToRegion[requestId];
+        delete requestToSampleCount[requestId];
+        
+        // An older request answered late must not overwrite a newer average
+        if (requestId != latestRegionRequest[regionCode]) return;
+        
+        RegionAverage storage avg = regionAverages[regionCode];
+        avg.average = average;
+        avg.sampleCount = sampleCount;
+        avg.revealedAt = block.timestamp;
+        avg.isRevealed = true;
+        avg.isPending = false;
+        
+        emit RegionAverageDecrypted(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), average, avg.sampleCount);
+    }
+    
+    // Evaluating after every sample would tell the owner, who knows the threshold, on which
+    // side of it each reading fell; it waits for MIN_REGION_SAMPLES new ones since the region's last reveal
+    function _evaluateThreshold(string memory regionCode) private {
+        if (!FHE.isInitialized(encryptedThresholds[regionCode])) return;
+        uint32 sampleCount = regionObservationCount[regionCode];
+        if (sampleCount < regionRevealedSamples[regionCode] + MIN_REGION_SAMPLES) return;
+        regionRevealedSamples[regionCode] = sampleCount;
+        
+        euint32 regionalAvg = FHE.div(encryptedRegionStats[regionCode], sampleCount);
+        ebool breached = FHE.lt(regionalAvg, encryptedThresholds[regionCode]);
+        FHE.allowThis(breached);
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(breached);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptThresholdAlert.selector);
+        requestToAlertRegion[reqId] = regionCode;
+        requestToAlertSamples[reqId] = sampleCount;
+        ThresholdAlert storage alert = thresholdAlerts[regionCode];
+        alert.requestedSampleCount = sampleCount;
+        alert.isPending = true;
+        
+        emit ThresholdEvaluationRequested(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), reqId);
+    }
+    
+    function decryptThresholdAlert(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        string memory regionCode = requestToAlertRegion[requestId];
+        require(bytes(regionCode).length != 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        bool breached = abi.decode(cleartexts, (bool));
+        uint32 sampleCount = requestToAlertSamples[requestId];
+        delete requestToAlertRegion[requestId];
+        delete requestToAlertSamples[requestId];
+        
+        // An older evaluation answered late must not overwrite a newer one
+        ThresholdAlert storage alert = thresholdAlerts[regionCode];
+        if (alert.isEvaluated && sampleCount < alert.sampleCount) return;
+        
+        alert.breached = breached;
+        alert.sampleCount = sampleCount;
+        alert.evaluatedAt = block.timestamp;
+        alert.isEvaluated = true;
+        alert.isPending = alert.requestedSampleCount != sampleCount;
+        
+        emit ThresholdEvaluated(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), regionCode, breached, sampleCount);
+    }
+    
+    // Only the direction and size of the change between the two period averages is revealed
+    function requestTrendDecryption(string memory regionCode, uint16 fromYear, uint16 toYear) public {
+        require(fromYear < toYear, "Invalid period range");
+        uint32 fromSamples = periodObservationCount[regionCode][fromYear];
+        uint32 toSamples = periodObservationCount[regionCode][toYear];
+        require(fromSamples >= MIN_TREND_SAMPLES && toSamples >= MIN_TREND_SAMPLES, "Not enough samples");
+        
+        // Period samples are region samples, so the region-wide guard covers both periods
+        _claimReveal(regionCode, regionObservationCount[regionCode]);
+        
+        euint32 fromAvg = FHE.div(encryptedPeriodSums[regionCode][fromYear], fromSamples);
+        euint32 toAvg = FHE.div(encryptedPeriodSums[regionCode][toYear], toSamples);
+        ebool darker = FHE.gt(toAvg, fromAvg);
+        euint32 change = FHE.select(darker, FHE.sub(toAvg, fromAvg), FHE.sub(fromAvg, toAvg));
+        FHE.allowThis(darker);
+        FHE.allowThis(change);
+        
+        bytes32[] memory ciphertexts = new bytes32[](2);
+        ciphertexts[0] = FHE.toBytes32(darker);
+        ciphertexts[1] = FHE.toBytes32(change);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptRegionTrend.selector);
+        bytes32 trendKey = _trendKey(regionCode, fromYear, toYear);
+        requestToTrendRegion[reqId] = regionCode;
+        requestToTrend[reqId] = trendKey;
+        requestToTrendSamples[reqId] = [fromSamples, toSamples];
+        latestTrendRequest[trendKey] = reqId;
+        RegionTrend storage trend = regionTrends[trendKey];
+        trend.fromYear = fromYear;
+        trend.toYear = toYear;
+        trend.requestedFromSamples = fromSamples;
+        trend.requestedToSamples = toSamples;
+        trend.isPending = true;
+        
+        emit TrendDecryptionRequested(bytes32ToUint(keccak256(abi.encodePacked(regionCode))), fromYear, toYear, reqId);
+    }
+    
+    function decryptRegionTrend(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        bytes32 trendKey = requestToTrend[requestId];
+        require(trendKey != bytes32(0), "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        (bool darker, uint32 change) = abi.decode(cleartexts, (bool, uint32));
+        uint32[2] memory samples = requestToTrendSamples[requestId];
+        string memory regionCode = requestToTrendRegion[requestId];
+        delete requestToTrendRegion[requestId];
+        delete requestToTrend[requestId];
+        delete requestToTrendSamples[requestId];
+        
+        // An older request answered late must not overwrite a newer trend
+        if (requestId != latestTrendRequest[trendKey]) return;
+        
+        RegionTrend storage trend = regionTrends[trendKey];
+        trend.darker = darker;
+        trend.change = change;
+        trend.fromSamples = samples[0];
+        trend.toSamples = samples[1];
+        trend.revealedAt = block.timestamp;
+        trend.isRevealed = true;
+        trend.isPending = false;
+        
+        emit RegionTrendDecrypted(
+            bytes32ToUint(keccak256(abi.encodePacked(regionCode))),
+            trend.fromYear,
+            trend.toYear,
+            darker,
+            change
+        );
+    }
+    
+    // Averages are compared pairwise under encryption; only each region's position is revealed
+    function requestRankingDecryption(string[] memory regionCodes) public {
+        uint256 n = regionCodes.length;
+        require(n >= 2 && n <= MAX_RANKING_SIZE, "Invalid ranking size");
+        
+        euint32[] memory averages = new euint32[](n);
+        uint256 sampleCounts = 0;
+        uint32 sampleTotal = 0;
+        for (uint i = 0; i < n; i++) {
+            // Ascending region ids give every set a single key and rule out duplicates
+            require(
+                i == 0 ||
+                    bytes32ToUint(keccak256(abi.encodePacked(regionCodes[i - 1]))) <
+                    bytes32ToUint(keccak256(abi.encodePacked(regionCodes[i]))),
+                "Regions not in region id order"
+            );
+            uint32 sampleCount = regionObservationCount[regionCodes[i]];
+            require(sampleCount >= MIN_REGION_SAMPLES, "Not enough samples");
+            
+            _claimReveal(regionCodes[i], sampleCount);
+            
+            averages[i] = FHE.div(encryptedRegionStats[regionCodes[i]], sampleCount);
+            sampleCounts |= uint256(sampleCount) << (32 * i);
+            sampleTotal += sampleCount;
+        }
+        
+        // A region's rank is one more than the number of strictly darker averages
+        bytes32[] memory ciphertexts = new bytes32[](n);
+        for (uint i = 0; i < n; i++) {
+            euint8 rank = FHE.asEuint8(1);
+            for (uint j = 0; j < n; j++) {
+                if (j == i) continue;
+                rank = FHE.add(rank, FHE.asEuint8(compareBrightness(averages[j], averages[i])));
+            }
+            FHE.allowThis(rank);
+            ciphertexts[i] = FHE.toBytes32(rank);
+        }
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptRanking.selector);
+        bytes32 rankingKey = _rankingKey(regionCodes);
+        requestToRanking[reqId] = rankingKey;
+        requestToRankingSamples[reqId] = sampleCounts;
+        rankings[rankingKey].requestedSampleTotal = sampleTotal;
+        rankings[rankingKey].isPending = true;
+        
+        emit RankingRequested(rankingKey, regionCodes, reqId);
+    }
+    
+    function decryptRanking(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        bytes32 rankingKey = requestToRanking[requestId];
+        require(rankingKey != bytes32(0), "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        uint256 sampleCounts = requestToRankingSamples[requestId];
+        delete requestToRanking[requestId];
+        delete requestToRankingSamples[requestId];
+        
+        // One 32-byte word per rank, in region order
+        uint256 n = cleartexts.length / 32;
+        require(n >= 2 && n <= MAX_RANKING_SIZE && cleartexts.length == n * 32, "Unexpected cleartexts");
+        uint64 ranks = 0;
+        uint32 sampleTotal = 0;
+        for (uint i = 0; i < n; i++) {
+            uint256 word;
+            assembly {
+                word := mload(add(cleartexts, mul(add(i, 1), 32)))
+            }
+            ranks |= uint64(uint8(word)) << uint64(8 * i);
+            sampleTotal += uint32(sampleCounts >> (32 * i));
+        }
+        
+        // Sample counts only grow, so an older ranking answered late has the smaller total
+        Ranking storage ranking = rankings[rankingKey];
+        if (ranking.isRevealed && sampleTotal < ranking.sampleTotal) return;
+        
+        ranking.ranks = ranks;
+        ranking.sampleCounts = sampleCounts;
+        ranking.sampleTotal = sampleTotal;
+        ranking.revealedAt = block.timestamp;
+        ranking.isRevealed = true;
+        ranking.isPending = ranking.requestedSampleTotal != sampleTotal;
+        
+        emit RankingDecrypted(rankingKey, ranks);
+    }
+    
+    function getRanking(string[] memory regionCodes) public view returns (
+        uint8[] memory ranks,
+        uint32[] memory sampleCounts,
+        uint32 requestedSampleTotal,
+        uint256 revealedAt,
+        bool isRevealed,
+        bool isPending
+    ) {
+        Ranking storage r = rankings[_rankingKey(regionCodes)];
+        uint256 n = r.isRevealed ? regionCodes.length : 0;
+        ranks = new uint8[](n);
+        sampleCounts = new uint32[](n);
+        for (uint i = 0; i < n; i++) {
+            ranks[i] = uint8(r.ranks >> (8 * i));
+            sampleCounts[i] = uint32(r.sampleCounts >> (32 * i));
+        }
+        return (ranks, sampleCounts, r.requestedSampleTotal, r.revealedAt, r.isRevealed, r.isPending);
+    }
+    
+    function _rankingKey(string[] memory regionCodes) private pure returns (bytes32) {
+        return keccak256(abi.encode(regionCodes));
+    }
+    
+    function getRegionTrend(string memory regionCode, uint16 fromYear, uint16 toYear) public view returns (
+        bool darker,
+        uint32 change,
+        uint32 fromSamples,
+        uint32 toSamples,
+        uint32 requestedFromSamples,
+        uint32 requestedToSamples,
+        uint256 revealedAt,
+        bool isRevealed,
+        bool isPending
+    ) {
+        RegionTrend storage t = regionTrends[_trendKey(regionCode, fromYear, toYear)];
+        return (
+            t.darker, t.change, t.fromSamples, t.toSamples, t.requestedFromSamples,
+            t.requestedToSamples, t.revealedAt, t.isRevealed, t.isPending
+        );
+    }
+    
+    function getRegionPeriods(string memory regionCode) public view returns (uint16[] memory periodYears, uint32[] memory counts) {
+        periodYears = regionPeriods[regionCode];
+        counts = new uint32[](periodYears.length);
+        for (uint i = 0; i < periodYears.length; i++) {
+            counts[i] = periodObservationCount[regionCode][periodYears[i]];
+        }
+    }
+    
+    function _trendKey(string memory regionCode, uint16 fromYear, uint16 toYear) private pure returns (bytes32) {
+        return keccak256(abi.encode(regionCode, fromYear, toYear));
+    }
+    
+    // Civil-from-days (H. Hinnant): the proleptic Gregorian UTC year of a unix timestamp
+    function _yearOf(uint256 timestamp) private pure returns (uint16) {
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 year = yoe + era * 400;
+        // Years are counted from March, so January and February belong to the next one
+        return uint16(mp >= 10 ? year + 1 : year);
+    }
+    
+    function getRegionAverage(string memory regionCode) public view returns (
+        uint32 average,
+        uint32 sampleCount,
+        uint32 requestedSampleCount,
+        uint256 revealedAt,
+        bool isRevealed,
+        bool isPending
+    ) {
+        RegionAverage storage a = regionAverages[regionCode];
+        return (a.average, a.sampleCount, a.requestedSampleCount, a.revealedAt, a.isRevealed, a.isPending);
+    }
+    
     function getDecryptedObservation(uint256 observationId) public view returns (
-        float brightness,
-        float latitude,
-        float longitude,
+        uint32 brightness,
+        uint32 latitude,
+        uint32 longitude,
         uint256 timestamp,
+        uint32 bortle,
+        uint32 nelm,
+        uint32 cloudCover,
         bool isRevealed
     ) {
         DecryptedObservation storage d = decryptedObservations[observationId];
-        return (d.brightness, d.latitude, d.longitude, d.timestamp, d.isRevealed);
+        return (d.brightness, d.latitude, d.longitude, d.timestamp, d.bortle, d.nelm, d.cloudCover, d.isRevealed);
+    }
+    
+    function getEncryptedObservation(uint256 observationId) public view returns (
+        euint32 brightness,
+        euint32 latitude,
+        euint32 longitude,
+        euint32 timestamp,
+        euint32 bortle,
+        euint32 nelm,
+        euint32 cloudCover,
+        address submitter
+    ) {
+        EncryptedObservation storage e = encryptedObservations[observationId];
+        require(e.submitter != address(0), "Observation not found");
+        return (
+            e.encryptedBrightness,
+            e.encryptedLatitude,
+            e.encryptedLongitude,
+            e.encryptedTimestamp,
+            e.encryptedBortle,
+            e.encryptedNelm,
+            e.encryptedCloudCover,
+            e.submitter
+        );
+    }
+    
+    function getModeration(uint256 observationId) public view returns (
+        ModerationStatus status,
+        uint32 approvals,
+        uint256 decidedAt,
+        address rejectedBy,
+        string memory rejectionReason
+    ) {
+        Moderation storage m = moderations[observationId];
+        uint32 count = m.status == ModerationStatus.Pending ? _currentApprovals(m) : m.approvals;
+        return (m.status, count, m.decidedAt, m.rejectedBy, m.rejectionReason);
+    }
+    
+    function _currentApprovals(Moderation storage m) private view returns (uint32 count) {
+        for (uint i = 0; i < m.approvers.length; i++) {
+            if (isVerifier[m.approvers[i]]) count += 1;
+        }
+    }
+    
+    function getModerationStatuses(uint256[] memory observationIds) public view returns (ModerationStatus[] memory statuses) {
+        statuses = new ModerationStatus[](observationIds.length);
+        for (uint i = 0; i < observationIds.length; i++) {
+            statuses[i] = moderations[observationIds[i]].status;
+        }
+    }
+    
+    // Lets off-chain records be checked against who actually submitted each observation
+    function getSubmitters(uint256[] memory observationIds) public view returns (address[] memory submitters) {
+        submitters = new address[](observationIds.length);
+        for (uint i = 0; i < observationIds.length; i++) {
+            submitters[i] = encryptedObservations[observationIds[i]].submitter;
+        }
+    }
+    
+    function getRegionCount() public view returns (uint256) {
+        return regionList.length;
+    }
+    
+    function getRegions() public view returns (string[] memory regionCodes, uint32[] memory counts) {
+        regionCodes = regionList;
+        counts = new uint32[](regionList.length);
+        for (uint i = 0; i < regionList.length; i++) {
+            counts[i] = regionObservationCount[regionList[i]];
+        }
     }
     
     function compareBrightness(
         euint32 brightness1,
         euint32 brightness2
-    ) public pure returns (ebool) {
+    ) public returns (ebool) {
         return FHE.gt(brightness1, brightness2);
     }
     
     function checkPollutionThreshold(
         euint32 brightness,
         euint32 threshold
-    ) public pure returns (ebool) {
+    ) public returns (ebool) {
         return FHE.gt(brightness, threshold);
     }
     
@@ -169,7 +944,7 @@ contract LightPollution_FHE is SepoliaConfig {
     
     function aggregateObservations(
         euint32[] memory brightnessValues
-    ) public pure returns (euint32) {
+    ) public returns (euint32) {
         require(brightnessValues.length > 0, "No observations");
         
         euint32 sum = FHE.asEuint32(0);
@@ -177,6 +952,6 @@ contract LightPollution_FHE is SepoliaConfig {
             sum = FHE.add(sum, brightnessValues[i]);
         }
         
-        return FHE.div(sum, FHE.asEuint32(uint32(brightnessValues.length)));
+        return FHE.div(sum, uint32(brightnessValues.length));
     }
 }
\ No newline at end of file
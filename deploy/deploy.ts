@@ -345,6 +345,19 @@ async function main() {
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // The frontend scans DataStored logs from this block onwards
+  const deploymentReceipt = await factory.deploymentTransaction()?.wait();
+  const deploymentBlock = deploymentReceipt?.blockNumber ?? 0;
+  console.log("UniversalAdapter deployment block:", deploymentBlock);
+
+  // Deploy the FHE observation contract the "Add Data" modal submits to
+  const LightPollutionFactory = await hardhatEthers.getContractFactory("LightPollution_FHE", wallet);
+  const lightPollution = await LightPollutionFactory.deploy();
+  await lightPollution.waitForDeployment();
+
+  const lightPollutionAddress = await lightPollution.getAddress();
+  console.log("LightPollution_FHE contract deployed at:", lightPollutionAddress);
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
@@ -354,6 +367,8 @@ async function main() {
       network: rpc,
       contractAddress: deployedAddress,
       deployer: wallet.address,
+      lightPollutionAddress,
+      deploymentBlock,
     };
     fs.writeFileSync(
       path.join(frontendConfigDir, "config.json"),
@@ -375,6 +390,17 @@ async function main() {
       if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
       fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
       console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
+
+      const lightPollutionArtifactPath = path.join(
+        __dirname,
+        "..",
+        "artifacts",
+        "contracts",
+        "LightPollution_FHE.sol",
+        "LightPollution_FHE.json"
+      );
+      fs.copyFileSync(lightPollutionArtifactPath, path.join(targetAbiPath, "LightPollution_FHE.json"));
+      console.log("Copied ABI to frontend/web/src/abi/LightPollution_FHE.json");
     } catch (e) {
       console.warn(
         "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
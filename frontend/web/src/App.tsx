@@ -1,27 +1,130 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, Route, Routes, useLocation } from "react-router-dom";
+import {
+  canRevealAt,
+  config,
+  getContractReadOnly,
+  getLightPollutionClientReadOnly,
+  getLightPollutionClientWithSigner,
+  Moderation,
+  RegionAverage,
+  RegionSummary,
+  VerifierRoles
+} from "./contract";
+import {
+  encryptObservation,
+  encryptObservationBatch,
+  encryptSkyQualityThreshold,
+  decodeObservation,
+  formatSkyQuality,
+  userDecryptObservation,
+  validateObservation,
+  ObservationPlaintext,
+  BORTLE_RANGE,
+  CLOUD_COVER_RANGE,
+  NELM_RANGE,
+  SQM_RANGE
+} from "./fhe";
+import { loadLatestEntries } from "./eventLoader";
+import { isIndexKey, loadIndexedRecordIds, RECORD_PREFIX } from "./recordIndex";
+import {
+  parseStoredRecord,
+  LightPollutionRecord,
+  QuarantinedRecord,
+  StoredRecord,
+  INSTRUMENT_TYPES,
+  OBSERVING_CONDITIONS,
+  RECORD_SCHEMA_VERSION,
+  verifyProvenance
+} from "./recordSchema";
+import BrightnessMap from "./components/BrightnessMap";
+import ContributionChart from "./components/ContributionChart";
+import RegionTrends from "./components/RegionTrends";
+import DarkestSkiesPage from "./components/DarkestSkiesPage";
+import SqmImport, { PendingReading, ReadingMetadata } from "./components/SqmImport";
+import GlobeAtNightImport from "./components/GlobeAtNightImport";
+import { DEFAULT_GEOHASH_PRECISION, GEOHASH_PRECISIONS, GridCell, snapToCell } from "./geohash";
+import { assessSkyContext, computeSkyContext, qualityFlagBits, QualityFlag } from "./ephemeris";
+import { loadRecordHistory, StatusHistoryEntry } from "./recordHistory";
+import { downloadExport, downloadFile, ExportFormat, observationFeatures, regionFeatures, RevealedObservation } from "./dataExport";
+import { toGlobeAtNightCsv } from "./globeAtNight";
+import { describeTxError, useOperations } from "./txOrchestrator";
+import { ModerateRecordContext, RECORD_OPERATIONS, RecordOperation } from "./recordOperations";
+import { useDecryptionTracker, TrackedDecryptionRequest } from "./decryptionTracker";
+import { requestNotificationPermission, useThresholdAlerts } from "./thresholdAlerts";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import "./App.css";
 
-interface LightPollutionRecord {
-  id: string;
-  encryptedBrightness: string;
-  timestamp: number;
-  location: string;
-  contributor: string;
-  status: "pending" | "verified" | "rejected";
-}
+// Mirrors LightPollution_FHE.MIN_REGION_SAMPLES: below this an average exposes single sites
+const MIN_REGION_SAMPLES = 3;
+const CELL_PRECISION_KEY = "light_pollution_cell_precision";
+const LEADERBOARD_PATH = "/leaderboard";
+
+const loadCellPrecision = () => {
+  const stored = parseInt(localStorage.getItem(CELL_PRECISION_KEY) || "", 10);
+  return GEOHASH_PRECISIONS.some(p => p.precision === stored) ? stored : DEFAULT_GEOHASH_PRECISION;
+};
+
+const emptyRecordForm = (precision: string) => ({
+  precision,
+  latitude: "",
+  longitude: "",
+  skyQuality: "",
+  bortle: "",
+  nelm: "",
+  instrument: "SQM-L",
+  cloudCover: "0",
+  conditions: [] as string[],
+  observedAt: "",
+  notes: ""
+});
+
+type RecordForm = ReturnType<typeof emptyRecordForm>;
+
+// A blank observation time means "now"
+const observedTimestamp = (form: RecordForm) =>
+  form.observedAt ? Math.floor(new Date(form.observedAt).getTime() / 1000) : Math.floor(Date.now() / 1000);
+
+const QUALITY_FLAG_LABELS: Record<QualityFlag, { en: string; zh: string }> = {
+  twilight: { en: "Twilight", zh: "曙暮光" },
+  moonlit: { en: "Moonlit", zh: "月光" }
+};
+
+// Blank optional fields stay undefined so they are encrypted as "not given"
+const readingFromForm = (form: RecordForm, latitude: number, longitude: number, timestamp: number): ObservationPlaintext => ({
+  skyQuality: parseFloat(form.skyQuality),
+  bortle: form.bortle ? parseInt(form.bortle, 10) : undefined,
+  nelm: form.nelm ? parseFloat(form.nelm) : undefined,
+  cloudCover: parseFloat(form.cloudCover),
+  latitude,
+  longitude,
+  timestamp
+});
+
+// revealedSamples counts every kind of reveal, so a ranking or threshold evaluation can hold back an average
+const canRevealRegion = (region: RegionSummary, revealedSamples: number, average?: RegionAverage) => {
+  if (region.observationCount < MIN_REGION_SAMPLES) return false;
+  if (average?.isRevealed && average.sampleCount === region.observationCount) return false;
+  return canRevealAt(region.observationCount, revealedSamples);
+};
 
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<LightPollutionRecord[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  const [regions, setRegions] = useState<RegionSummary[]>([]);
+  const [regionAverages, setRegionAverages] = useState<Record<string, RegionAverage>>({});
+  const [revealedSamples, setRevealedSamples] = useState<Record<string, number>>({});
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showGanImportModal, setShowGanImportModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
@@ -29,15 +132,34 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({
-    location: "",
-    brightness: "",
-    notes: ""
-  });
+  const [newRecordData, setNewRecordData] = useState<RecordForm>(emptyRecordForm(String(loadCellPrecision())));
   const [showTutorial, setShowTutorial] = useState(false);
   const [language, setLanguage] = useState<"en" | "zh">("en");
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [myReading, setMyReading] = useState<{ record: LightPollutionRecord; reading: ObservationPlaintext } | null>(null);
+  const [decryptingId, setDecryptingId] = useState<string | null>(null);
+  const decryptionTracker = useDecryptionTracker();
+  const [detailRecord, setDetailRecord] = useState<LightPollutionRecord | null>(null);
+  const [history, setHistory] = useState<StatusHistoryEntry[] | null>(null);
+  const [historyError, setHistoryError] = useState("");
+  const [roles, setRoles] = useState<VerifierRoles | null>(null);
+  const [verifiers, setVerifiers] = useState<string[]>([]);
+  const [moderations, setModerations] = useState<Record<number, Moderation & { approvedByMe: boolean }>>({});
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [newVerifier, setNewVerifier] = useState("");
+  const [newQuorum, setNewQuorum] = useState("");
+  const [ownerRegion, setOwnerRegion] = useState("");
+  const [ownerAddress, setOwnerAddress] = useState("");
+  const [thresholdInputs, setThresholdInputs] = useState<Record<string, string>>({});
+  const thresholdAlerts = useThresholdAlerts(account, language);
+  const onLeaderboard = useLocation().pathname === LEADERBOARD_PATH;
+  const [exporting, setExporting] = useState(false);
+  const recordOps = useOperations(RECORD_OPERATIONS);
+  const openOperations = Object.values(recordOps.operations)
+    .filter(op => op.state === "failed" || op.state === "running")
+    .sort((a, b) => b.createdAt - a.createdAt);
 
   // Calculate statistics for dashboard
   const verifiedCount = records.filter(r => r.status === "verified").length;
@@ -52,9 +174,25 @@ const App: React.FC = () => {
     return matchesSearch && matchesStatus;
   });
 
+  // Pending records with an on-chain observation that this verifier may moderate
+  const moderationQueue = records.filter(record =>
+    record.status === "pending" &&
+    record.observationId !== undefined &&
+    record.contributor.toLowerCase() !== account.toLowerCase()
+  );
+
+  // The key index fallback reads the connected contributor's own index
   useEffect(() => {
     loadRecords().finally(() => setLoading(false));
-  }, []);
+  }, [account]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [account]);
+
+  useEffect(() => {
+    if (roles?.isVerifier) loadModerations();
+  }, [roles, records]);
 
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
@@ -80,8 +218,30 @@ const App: React.FC = () => {
     setProvider(null);
   };
 
+  const loadRegions = async () => {
+    try {
+      const lightPollution = await getLightPollutionClientReadOnly();
+      if (!lightPollution) return;
+      
+      const list = await lightPollution.getRegions();
+      list.sort((a, b) => b.observationCount - a.observationCount);
+      setRegions(list);
+      
+      const eligible = list.filter(region => region.observationCount >= MIN_REGION_SAMPLES);
+      const averages: Record<string, RegionAverage> = {};
+      for (const region of eligible) {
+        averages[region.regionCode] = await lightPollution.getRegionAverage(region.regionCode);
+      }
+      setRegionAverages(averages);
+      setRevealedSamples(await lightPollution.getRevealedSampleCounts(eligible.map(region => region.regionCode)));
+    } catch (e) {
+      console.error("Error loading regions:", e);
+    }
+  };
+
   const loadRecords = async () => {
     setIsRefreshing(true);
+    loadRegions();
     try {
       const contract = await getContractReadOnly();
       if (!contract) return;
@@ -93,44 +253,84 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("light_pollution_keys");
-      let keys: string[] = [];
+      const candidates: { record: LightPollutionRecord; recordBytes: ethers.BytesLike; writer?: string }[] = [];
+      const rejected: QuarantinedRecord[] = [];
+      const addRecord = (id: string, recordBytes: ethers.BytesLike, writer?: string) => {
+        const parsed = parseStoredRecord(id, recordBytes);
+        if (parsed.ok) {
+          candidates.push({ record: parsed.record, recordBytes, writer });
+        } else {
+          rejected.push(parsed.quarantined);
+        }
+      };
       
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing record keys:", e);
+      if (config.deploymentBlock) {
+        // Rebuild records from DataStored logs instead of one getData call per key
+        const entries = await loadLatestEntries(contract, RECORD_PREFIX);
+        for (const entry of Object.values(entries)) {
+          if (isIndexKey(entry.key) || ethers.dataLength(entry.value) === 0) continue;
+          addRecord(entry.key.substring(RECORD_PREFIX.length), entry.value, entry.sender);
+        }
+      } else {
+        // Without a known deployment block a log scan is unbounded, so use the key index;
+        // other contributors are only discoverable from logs, so this covers legacy and own records
+        const keys = await loadIndexedRecordIds(contract, account ? [account] : []);
+        
+        for (const key of keys) {
+          try {
+            const recordBytes = await contract.getData(`${RECORD_PREFIX}${key}`);
+            if (recordBytes.length > 0) {
+              addRecord(key, recordBytes);
+            }
+          } catch (e) {
+            console.error(`Error loading record ${key}:`, e);
+          }
+        }
+      }
+      
+      // Anyone can write any key, so a record is only shown if its writer and on-chain
+      // submitter match the contributor it names; a failed lookup leaves the list unloaded
+      const lightPollution = await getLightPollutionClientReadOnly();
+      if (!lightPollution) return;
+      const claimed = candidates.filter(({ record }) => record.observationId !== undefined);
+      const submitters = await lightPollution.getSubmitters(claimed.map(({ record }) => record.observationId!));
+      const submitterOf = new Map(claimed.map(({ record }, i) => [record.id, submitters[i]]));
+      const writerIsVerifier = new Map<string, boolean>();
+      for (const { record, writer } of candidates) {
+        const key = writer?.toLowerCase();
+        if (key && key !== record.contributor.toLowerCase() && !writerIsVerifier.has(key)) {
+          writerIsVerifier.set(key, await lightPollution.isVerifier(writer!));
         }
       }
       
       const list: LightPollutionRecord[] = [];
+      for (const { record, recordBytes, writer } of candidates) {
+        const checked = verifyProvenance(record, recordBytes, {
+          writer,
+          writerIsVerifier: !!writer && writerIsVerifier.get(writer.toLowerCase()),
+          submitter: submitterOf.get(record.id)
+        });
+        if (checked.ok) {
+          list.push(checked.record);
+        } else {
+          rejected.push(checked.quarantined);
+        }
+      }
       
-      for (const key of keys) {
+      // Moderation lives on-chain; the status in the stored JSON is only a mirror
+      const onChain = list.filter(record => record.observationId !== undefined);
+      if (onChain.length > 0) {
         try {
-          const recordBytes = await contract.getData(`light_pollution_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({
-                id: key,
-                encryptedBrightness: recordData.data,
-                timestamp: recordData.timestamp,
-                location: recordData.location,
-                contributor: recordData.contributor,
-                status: recordData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing record data for ${key}:`, e);
-            }
-          }
+          const statuses = await lightPollution.getModerationStatuses(onChain.map(record => record.observationId!));
+          onChain.forEach((record, i) => { record.status = statuses[i]; });
         } catch (e) {
-          console.error(`Error loading record ${key}:`, e);
+          console.error("Error loading moderation statuses:", e);
         }
       }
       
       list.sort((a, b) => b.timestamp - a.timestamp);
       setRecords(list);
+      setQuarantined(rejected);
     } catch (e) {
       console.error("Error loading records:", e);
     } finally {
@@ -139,6 +339,93 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Encrypts a reading whose coordinates are already snapped to `cell`, submits it
+   * and stores its record. Like submitReadingBatch, resolves false when the observation
+   * is on-chain but storing its record failed; the operation is then left to resume.
+   */
+  const submitReading = async (
+    reading: ObservationPlaintext,
+    cell: GridCell,
+    metadata: ReadingMetadata
+  ): Promise<boolean> => {
+    const encrypted = await encryptObservation(config.lightPollutionAddress, account, reading);
+    
+    const lightPollution = await getLightPollutionClientWithSigner();
+    const { observationId, receipt } = await lightPollution.submitObservation(
+      encrypted,
+      cell.regionCode,
+      qualityFlagBits(metadata.qualityFlags)
+    );
+    
+    const { recordId, record } = buildRecord(observationId, encrypted.handles[0], receipt.hash, cell, metadata);
+    // Storing and indexing are separate transactions; a failed step can be resumed later
+    try {
+      await recordOps.start("submit", { recordId, contributor: account, record });
+      return true;
+    } catch (e) {
+      console.error("Error storing record:", e);
+      return false;
+    }
+  };
+  
+  /**
+   * One wallet prompt and one input proof per batch; callers split to OBSERVATIONS_PER_INPUT.
+   * Resolves false when the observations are on-chain but storing their records failed: the
+   * batch operation is then left under Unfinished Operations, and resubmitting would duplicate it.
+   */
+  const submitReadingBatch = async (batch: PendingReading[]): Promise<boolean> => {
+    const encrypted = await encryptObservationBatch(
+      config.lightPollutionAddress,
+      account,
+      batch.map(item => item.reading)
+    );
+    
+    const lightPollution = await getLightPollutionClientWithSigner();
+    const { observationIds, receipt } = await lightPollution.submitObservationBatch(
+      encrypted,
+      batch.map(item => ({ regionCode: item.cell.regionCode, qualityFlags: qualityFlagBits(item.metadata.qualityFlags) }))
+    );
+    
+    const records = batch.map((item, i) =>
+      buildRecord(observationIds[i], encrypted.handles[i][0], receipt.hash, item.cell, item.metadata)
+    );
+    try {
+      await recordOps.start("submitBatch", { contributor: account, records });
+      return true;
+    } catch (e) {
+      console.error("Error storing batch records:", e);
+      return false;
+    }
+  };
+  
+  const buildRecord = (
+    observationId: number,
+    brightnessHandle: string,
+    txHash: string,
+    cell: GridCell,
+    metadata: ReadingMetadata
+  ) => {
+    const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    
+    // Only the ciphertext handle and public metadata are stored in the adapter
+    const recordData: StoredRecord = {
+      version: RECORD_SCHEMA_VERSION,
+      data: brightnessHandle,
+      observationId,
+      txHash,
+      timestamp: Math.floor(Date.now() / 1000),
+      contributor: account,
+      location: cell.regionCode,
+      instrument: metadata.instrument,
+      conditions: metadata.conditions,
+      qualityFlags: metadata.qualityFlags,
+      notes: metadata.notes,
+      status: "pending"
+    };
+    return { recordId, record: recordData };
+  };
+
   const submitRecord = async () => {
     if (!provider) { 
       alert("Please connect wallet first"); 
@@ -150,59 +437,44 @@ const App: React.FC = () => {
       visible: true,
       status: "pending",
       message: language === "en" 
-        ? "Encrypting brightness data with FHE..." 
+        ? "Encrypting sky quality data with FHE..." 
         : "使用FHE加密亮度数据..."
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newRecordData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const recordData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        contributor: account,
-        location: newRecordData.location,
-        status: "pending"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `light_pollution_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(recordData))
+      const observedAt = observedTimestamp(newRecordData);
+      // Only the cell centre is encrypted and only the cell id is published
+      const cell = snapToCell(
+        parseFloat(newRecordData.latitude),
+        parseFloat(newRecordData.longitude),
+        parseInt(newRecordData.precision, 10)
       );
-      
-      const keysBytes = await contract.getData("light_pollution_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+      const sky = assessSkyContext(computeSkyContext(cell.center.latitude, cell.center.longitude, observedAt));
+      if (sky.blocked) {
+        throw new Error(language === "en" ? "The sun is too high for a valid reading" : "太阳高度过高，读数无效");
       }
+      localStorage.setItem(CELL_PRECISION_KEY, newRecordData.precision);
       
-      keys.push(recordId);
-      
-      await contract.setData(
-        "light_pollution_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      const stored = await submitReading(
+        readingFromForm(newRecordData, cell.center.latitude, cell.center.longitude, observedAt),
+        cell,
+        {
+          instrument: newRecordData.instrument,
+          conditions: newRecordData.conditions,
+          qualityFlags: sky.flags,
+          notes: newRecordData.notes.trim() || undefined
+        }
       );
       
+      // Resubmitting would duplicate the observation, so a failed store is resumed instead
       setTransactionStatus({
         visible: true,
-        status: "success",
-        message: language === "en" 
-          ? "Encrypted data submitted securely!" 
-          : "加密数据已安全提交!"
+        status: stored ? "success" : "error",
+        message: stored
+          ? (language === "en" ? "Encrypted data submitted securely!" : "加密数据已安全提交!")
+          : (language === "en"
+            ? "Observation submitted, but storing its record failed; resume it under Unfinished Operations"
+            : "观测已提交，但记录存储失败；请在未完成的操作中继续")
       });
       
       await loadRecords();
@@ -210,16 +482,12 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRecordData({
-          location: "",
-          brightness: "",
-          notes: ""
-        });
+        setNewRecordData(emptyRecordForm(newRecordData.precision));
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
+      const errorMessage = e.code === "ACTION_REJECTED"
         ? language === "en" ? "Transaction rejected by user" : "用户拒绝了交易"
-        : (language === "en" ? "Submission failed: " : "提交失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"));
+        : (language === "en" ? "Submission failed: " : "提交失败: ") + describeTxError(e);
       
       setTransactionStatus({
         visible: true,
@@ -235,52 +503,235 @@ const App: React.FC = () => {
     }
   };
 
-  const verifyRecord = async (recordId: string) => {
+  const openRecordDetail = async (record: LightPollutionRecord) => {
+    setDetailRecord(record);
+    setHistory(null);
+    setHistoryError("");
+    try {
+      setHistory(await loadRecordHistory(record));
+    } catch (e: any) {
+      console.error("Error loading record history:", e);
+      setHistoryError(e.message || "Unknown error");
+    }
+  };
+
+  const loadRoles = async () => {
+    try {
+      const lightPollution = await getLightPollutionClientReadOnly();
+      if (!lightPollution) return;
+      
+      const nextRoles = await lightPollution.getVerifierRoles(account);
+      setRoles(nextRoles);
+      // The verifier list is replayed from logs; without a deployment block only the count is known
+      if (nextRoles.isAdmin && config.deploymentBlock) {
+        setVerifiers(await lightPollution.getVerifiers());
+      }
+    } catch (e) {
+      console.error("Error loading verifier roles:", e);
+    }
+  };
+
+  const loadModerations = async () => {
+    try {
+      const lightPollution = await getLightPollutionClientReadOnly();
+      if (!lightPollution) return;
+      
+      const next: Record<number, Moderation & { approvedByMe: boolean }> = {};
+      for (const record of moderationQueue) {
+        const id = record.observationId!;
+        const [moderation, approvedByMe] = await Promise.all([
+          lightPollution.getModeration(id),
+          lightPollution.hasApproved(id, account)
+        ]);
+        next[id] = { ...moderation, approvedByMe };
+      }
+      setModerations(next);
+    } catch (e) {
+      console.error("Error loading moderation queue:", e);
+    }
+  };
+
+  const moderateRecord = async (record: LightPollutionRecord, decision: ModerateRecordContext["decision"]) => {
     if (!provider) {
       alert(language === "en" ? "Please connect wallet first" : "请先连接钱包");
       return;
     }
+    if (record.observationId === undefined) return;
+    
+    const reason = rejectReason.trim();
+    if (decision === "reject" && !reason) {
+      alert(language === "en" ? "A reason is required to reject a record" : "拒绝记录必须填写原因");
+      return;
+    }
 
     setTransactionStatus({
       visible: true,
       status: "pending",
       message: language === "en" 
-        ? "Processing encrypted data with FHE..." 
-        : "使用FHE处理加密数据..."
+        ? "Waiting for transaction confirmation..." 
+        : "等待交易确认..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await recordOps.start("moderate", {
+        recordId: record.id,
+        observationId: record.observationId,
+        decision,
+        reason: decision === "reject" ? reason : undefined
+      });
       
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: decision === "approve"
+          ? (language === "en" ? "Approval recorded!" : "批准已记录!")
+          : (language === "en" ? "Record rejected!" : "记录已拒绝!")
+      });
       
-      const recordBytes = await contract.getData(`light_pollution_${recordId}`);
-      if (recordBytes.length === 0) {
-        throw new Error("Record not found");
-      }
+      setRejectingId(null);
+      setRejectReason("");
+      await loadRecords();
       
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: (decision === "approve"
+          ? (language === "en" ? "Verification failed: " : "验证失败: ")
+          : (language === "en" ? "Rejection failed: " : "拒绝失败: ")
+        ) + describeTxError(e)
+      });
       
-      const updatedRecord = {
-        ...recordData,
-        status: "verified"
-      };
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const runAdminAction = async (
+    action: (lightPollution: Awaited<ReturnType<typeof getLightPollutionClientWithSigner>>) => Promise<unknown>,
+    successMessage: string
+  ) => {
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: language === "en" ? "Waiting for transaction confirmation..." : "等待交易确认..."
+    });
+    
+    try {
+      await action(await getLightPollutionClientWithSigner());
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await loadRoles();
       
-      await contract.setData(
-        `light_pollution_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedRecord))
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: (language === "en" ? "Transaction failed: " : "交易失败: ") + describeTxError(e)
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const addVerifier = () => {
+    const address = newVerifier.trim();
+    if (!ethers.isAddress(address)) {
+      alert(language === "en" ? "Enter a valid address" : "请输入有效地址");
+      return;
+    }
+    runAdminAction(
+      lightPollution => lightPollution.addVerifier(address),
+      language === "en" ? "Verifier added!" : "验证者已添加!"
+    ).then(() => setNewVerifier(""));
+  };
+
+  const updateQuorum = () => {
+    const quorum = parseInt(newQuorum, 10);
+    if (!Number.isInteger(quorum) || quorum < 1 || (roles && quorum > roles.verifierCount)) {
+      alert(language === "en" 
+        ? "Quorum must be between 1 and the number of verifiers" 
+        : "法定人数必须在1和验证者数量之间"
       );
+      return;
+    }
+    runAdminAction(
+      lightPollution => lightPollution.setVerificationQuorum(quorum),
+      language === "en" ? "Quorum updated!" : "法定人数已更新!"
+    ).then(() => setNewQuorum(""));
+  };
+
+  const assignRegionOwner = () => {
+    const regionCode = ownerRegion.trim();
+    const address = ownerAddress.trim();
+    if (!regionCode || (address && !ethers.isAddress(address))) {
+      alert(language === "en" ? "Enter a region code and a valid address" : "请输入区域代码和有效地址");
+      return;
+    }
+    // An empty address unassigns the region
+    runAdminAction(
+      lightPollution => lightPollution.setRegionOwner(regionCode, address || ethers.ZeroAddress),
+      language === "en" ? "Region owner updated!" : "区域所有者已更新!"
+    ).then(() => {
+      setOwnerRegion("");
+      setOwnerAddress("");
+      thresholdAlerts.refresh();
+    });
+  };
+
+  const updateRegionThreshold = (regionCode: string) => {
+    const skyQuality = parseFloat(thresholdInputs[regionCode] || "");
+    if (!Number.isFinite(skyQuality) || skyQuality < SQM_RANGE.min || skyQuality > SQM_RANGE.max) {
+      alert(language === "en"
+        ? `Threshold must be between ${SQM_RANGE.min} and ${SQM_RANGE.max} mag/arcsec²`
+        : `阈值必须在${SQM_RANGE.min}和${SQM_RANGE.max} mag/arcsec²之间`
+      );
+      return;
+    }
+    // Breach notifications need permission, which browsers only grant from a click
+    requestNotificationPermission();
+    runAdminAction(
+      async lightPollution => lightPollution.setRegionThreshold(
+        regionCode,
+        await encryptSkyQualityThreshold(config.lightPollutionAddress, account, skyQuality)
+      ),
+      language === "en" ? "Encrypted threshold set!" : "加密阈值已设置!"
+    ).then(() => {
+      setThresholdInputs(prev => ({ ...prev, [regionCode]: "" }));
+      thresholdAlerts.refresh();
+    });
+  };
+
+  const handleOperation = async (op: RecordOperation, action: "resume" | "rollback") => {
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: action === "resume"
+        ? (language === "en" ? "Resuming operation..." : "继续操作...")
+        : (language === "en" ? "Rolling back operation..." : "回滚操作...")
+    });
+    
+    try {
+      if (action === "resume") {
+        await recordOps.resume(op.id);
+      } else {
+        await recordOps.rollback(op.id);
+      }
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: language === "en" 
-          ? "FHE verification completed successfully!" 
-          : "FHE验证成功完成!"
+        message: action === "resume"
+          ? (language === "en" ? "Operation completed!" : "操作已完成!")
+          : (language === "en" ? "Operation rolled back!" : "操作已回滚!")
       });
       
       await loadRecords();
@@ -292,7 +743,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: (language === "en" ? "Verification failed: " : "验证失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
+        message: describeTxError(e)
       });
       
       setTimeout(() => {
@@ -301,55 +752,187 @@ const App: React.FC = () => {
     }
   };
 
-  const rejectRecord = async (recordId: string) => {
+  const viewMyReading = async (record: LightPollutionRecord) => {
     if (!provider) {
       alert(language === "en" ? "Please connect wallet first" : "请先连接钱包");
       return;
     }
+    if (record.observationId === undefined) return;
+    
+    setDecryptingId(record.id);
+    try {
+      const lightPollution = await getLightPollutionClientWithSigner();
+      const handles = await lightPollution.getObservationHandles(record.observationId);
+      const signer = await provider.getSigner();
+      
+      // Decrypted values stay in component state and are never sent anywhere
+      const reading = await userDecryptObservation(
+        [handles.brightness, handles.latitude, handles.longitude, handles.timestamp, handles.bortle, handles.nelm, handles.cloudCover],
+        lightPollution.address,
+        signer
+      );
+      setMyReading({ record, reading });
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: (language === "en" ? "Decryption failed: " : "解密失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } finally {
+      setDecryptingId(null);
+    }
+  };
 
+  const requestReveal = async (record: LightPollutionRecord) => {
+    if (!provider) {
+      alert(language === "en" ? "Please connect wallet first" : "请先连接钱包");
+      return;
+    }
+    if (record.observationId === undefined) return;
+    
     setTransactionStatus({
       visible: true,
       status: "pending",
       message: language === "en" 
-        ? "Processing encrypted data with FHE..." 
-        : "使用FHE处理加密数据..."
+        ? "Requesting oracle decryption..." 
+        : "请求预言机解密..."
     });
-
+    
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      const lightPollution = await getLightPollutionClientWithSigner();
+      const { requestId, receipt } = await lightPollution.requestObservationDecryption(record.observationId);
+      decryptionTracker.track(record.observationId, requestId, receipt.hash);
       
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: language === "en" 
+          ? "Decryption requested, waiting for the oracle" 
+          : "已请求解密，等待预言机响应"
+      });
       
-      const recordBytes = await contract.getData(`light_pollution_${recordId}`);
-      if (recordBytes.length === 0) {
-        throw new Error("Record not found");
-      }
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      decryptionTracker.markFailed(record.observationId, e.message || "Request failed");
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: (language === "en" ? "Decryption request failed: " : "解密请求失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const revealRegionAverage = async (regionCode: string) => {
+    if (!provider) {
+      alert(language === "en" ? "Please connect wallet first" : "请先连接钱包");
+      return;
+    }
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: language === "en" 
+        ? "Computing encrypted regional average..." 
+        : "计算加密区域平均值..."
+    });
+    
+    try {
+      const lightPollution = await getLightPollutionClientWithSigner();
+      await lightPollution.requestRegionAverageDecryption(regionCode);
       
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: language === "en" 
+          ? "Average reveal requested, waiting for the oracle" 
+          : "已请求公开平均值，等待预言机响应"
+      });
       
-      const updatedRecord = {
-        ...recordData,
-        status: "rejected"
-      };
+      await loadRegions();
       
-      await contract.setData(
-        `light_pollution_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedRecord))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: (language === "en" ? "Reveal request failed: " : "公开请求失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const rankRegions = async (regionCodes: string[]) => {
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: language === "en" 
+        ? "Comparing encrypted averages..." 
+        : "比较加密平均值..."
+    });
+    
+    try {
+      const lightPollution = await getLightPollutionClientWithSigner();
+      await lightPollution.requestRankingDecryption(regionCodes);
       
       setTransactionStatus({
         visible: true,
         status: "success",
         message: language === "en" 
-          ? "FHE rejection completed successfully!" 
-          : "FHE拒绝成功完成!"
+          ? "Ranking requested, waiting for the oracle" 
+          : "已请求排名，等待预言机响应"
       });
       
-      await loadRecords();
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: (language === "en" ? "Ranking request failed: " : "排名请求失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const revealRegionTrend = async (regionCode: string, fromYear: number, toYear: number) => {
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: language === "en" 
+        ? "Computing encrypted trend..." 
+        : "计算加密趋势..."
+    });
+    
+    try {
+      const lightPollution = await getLightPollutionClientWithSigner();
+      await lightPollution.requestTrendDecryption(regionCode, fromYear, toYear);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: language === "en" 
+          ? "Trend reveal requested, waiting for the oracle" 
+          : "已请求公开趋势，等待预言机响应"
+      });
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
@@ -358,7 +941,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: (language === "en" ? "Rejection failed: " : "拒绝失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
+        message: (language === "en" ? "Reveal request failed: " : "公开请求失败: ") + (e.message || (language === "en" ? "Unknown error" : "未知错误"))
       });
       
       setTimeout(() => {
@@ -367,6 +950,58 @@ const App: React.FC = () => {
     }
   };
 
+  // Exports honour the table filters: the search applies to regions, search and status to observations
+  const exportData = async (choice: string) => {
+    const [dataset, format] = choice.split(":") as ["regions", ExportFormat | "globeatnight"] | ["observations", ExportFormat];
+    setExporting(true);
+    try {
+      if (dataset === "regions") {
+        const query = searchQuery.toLowerCase();
+        const matching = regions.filter(region => region.regionCode.toLowerCase().includes(query));
+        if (format === "globeatnight") {
+          downloadFile(toGlobeAtNightCsv(matching, regionAverages), "light-pollution-globe-at-night", "csv", "text/csv");
+        } else {
+          downloadExport(regionFeatures(matching, regionAverages), format, "light-pollution-regions");
+        }
+        return;
+      }
+      
+      const lightPollution = await getLightPollutionClientReadOnly();
+      if (!lightPollution) throw new Error("Contract is not available");
+      
+      // Only observations their contributors chose to reveal publicly are exported
+      const revealed: RevealedObservation[] = [];
+      for (const record of filteredRecords) {
+        if (record.observationId === undefined) continue;
+        const observation = await lightPollution.getDecryptedObservation(record.observationId);
+        if (!observation.isRevealed) continue;
+        revealed.push({
+          observationId: record.observationId,
+          record,
+          reading: decodeObservation([
+            observation.brightness,
+            observation.latitude,
+            observation.longitude,
+            observation.timestamp,
+            observation.bortle,
+            observation.nelm,
+            observation.cloudCover
+          ])
+        });
+      }
+      if (revealed.length === 0) {
+        alert(language === "en" ? "No publicly revealed observations match the current filters" : "没有符合当前筛选条件的已公开观测");
+        return;
+      }
+      downloadExport(observationFeatures(revealed), format, "light-pollution-observations");
+    } catch (e: any) {
+      console.error("Error exporting data:", e);
+      alert((language === "en" ? "Export failed: " : "导出失败: ") + (e.message || "Unknown error"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const isOwner = (address: string) => {
     return account.toLowerCase() === address.toLowerCase();
   };
@@ -406,33 +1041,6 @@ const App: React.FC = () => {
     }
   ];
 
-  const renderBarChart = () => {
-    // Sample data for demonstration
-    const monthlyData = [12, 19, 15, 22, 18, 24, 20, 17, 21, 23, 16, 14];
-    const maxValue = Math.max(...monthlyData);
-    
-    return (
-      <div className="bar-chart-container">
-        <div className="bar-chart">
-          {monthlyData.map((value, index) => (
-            <div key={index} className="bar-wrapper">
-              <div 
-                className="bar" 
-                style={{ height: `${(value / maxValue) * 100}%` }}
-              ></div>
-              <div className="bar-label">{value}</div>
-            </div>
-          ))}
-        </div>
-        <div className="chart-x-axis">
-          {["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"].map((month, index) => (
-            <div key={index} className="axis-label">{month}</div>
-          ))}
-        </div>
-      </div>
-    );
-  };
-
   if (loading) return (
     <div className="loading-screen">
       <div className="spinner"></div>
@@ -451,6 +1059,11 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
+          {thresholdAlerts.breachedRegions.length > 0 && (
+            <a href="#region-alerts" className="alert-badge breached">
+              {thresholdAlerts.breachedRegions.length} {language === "en" ? "sky alert(s)" : "个天空警报"}
+            </a>
+          )}
           <div className="language-toggle">
             <button 
               onClick={toggleLanguage}
@@ -473,6 +1086,18 @@ const App: React.FC = () => {
             <div className="add-icon"></div>
             {language === "en" ? "Add Data" : "添加数据"}
           </button>
+          <button 
+            onClick={() => setShowImportModal(true)} 
+            className="tutorial-btn"
+          >
+            {language === "en" ? "Import SQM Log" : "导入SQM日志"}
+          </button>
+          <button 
+            onClick={() => setShowGanImportModal(true)} 
+            className="tutorial-btn"
+          >
+            {language === "en" ? "Import Globe at Night" : "导入Globe at Night"}
+          </button>
           <button 
             className="tutorial-btn"
             onClick={() => setShowTutorial(!showTutorial)}
@@ -482,11 +1107,24 @@ const App: React.FC = () => {
               : (language === "en" ? "Show Tutorial" : "显示教程")
             }
           </button>
+          <Link to={onLeaderboard ? "/" : LEADERBOARD_PATH} className="tutorial-btn">
+            {onLeaderboard
+              ? (language === "en" ? "Dashboard" : "仪表板")
+              : (language === "en" ? "Darkest Skies" : "最暗天空")
+            }
+          </Link>
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
       
-      <div className="main-content">
+      <Routes>
+        <Route
+          path={LEADERBOARD_PATH}
+          element={<DarkestSkiesPage regions={regions} canRequest={!!provider} onRequest={rankRegions} language={language} />}
+        />
+      </Routes>
+      
+      <div className="main-content" hidden={onLeaderboard}>
         <div className="welcome-banner">
           <div className="welcome-text">
             <h2>{language === "en" ? "Confidential Light Pollution Analysis" : "机密光污染数据分析"}</h2>
@@ -535,38 +1173,387 @@ const App: React.FC = () => {
                 : "一个供天文台和公民科学家使用FHE技术共享加密夜空亮度数据的平台，用于创建全球光污染地图，同时保护位置隐私。"
               }
             </p>
-            <div className="fhe-badge">
-              <span>FHE-Powered</span>
-            </div>
-          </div>
-          
-          <div className="dashboard-card">
-            <h3>{language === "en" ? "Data Statistics" : "数据统计"}</h3>
-            <div className="stats-grid">
-              <div className="stat-item">
-                <div className="stat-value">{records.length}</div>
-                <div className="stat-label">{language === "en" ? "Total Records" : "总记录数"}</div>
-              </div>
-              <div className="stat-item">
-                <div className="stat-value">{verifiedCount}</div>
-                <div className="stat-label">{language === "en" ? "Verified" : "已验证"}</div>
-              </div>
-              <div className="stat-item">
-                <div className="stat-value">{pendingCount}</div>
-                <div className="stat-label">{language === "en" ? "Pending" : "待处理"}</div>
+            <div className="fhe-badge">
+              <span>FHE-Powered</span>
+            </div>
+          </div>
+          
+          <div className="dashboard-card">
+            <h3>{language === "en" ? "Data Statistics" : "数据统计"}</h3>
+            <div className="stats-grid">
+              <div className="stat-item">
+                <div className="stat-value">{records.length}</div>
+                <div className="stat-label">{language === "en" ? "Total Records" : "总记录数"}</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{verifiedCount}</div>
+                <div className="stat-label">{language === "en" ? "Verified" : "已验证"}</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{pendingCount}</div>
+                <div className="stat-label">{language === "en" ? "Pending" : "待处理"}</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{rejectedCount}</div>
+                <div className="stat-label">{language === "en" ? "Rejected" : "已拒绝"}</div>
+              </div>
+            </div>
+          </div>
+          
+          <div className="dashboard-card">
+            <h3>{language === "en" ? "Regional Aggregates" : "区域聚合"}</h3>
+            {regions.length === 0 ? (
+              <p>{language === "en" ? "No regions yet" : "暂无区域"}</p>
+            ) : (
+              <div className="region-list">
+                {regions.map(region => (
+                  <div className="region-item" key={region.regionCode}>
+                    <div className="region-name">{region.regionCode}</div>
+                    <div className="region-count">
+                      {region.observationCount} {language === "en" ? "samples" : "个样本"}
+                    </div>
+                    <span className={`region-status ${region.observationCount >= MIN_REGION_SAMPLES ? "ready" : "collecting"}`}>
+                      {region.observationCount >= MIN_REGION_SAMPLES
+                        ? (language === "en" ? "Encrypted average ready" : "加密平均值可用")
+                        : (language === "en" ? "Collecting samples" : "收集样本中")
+                      }
+                      {thresholdAlerts.alerts[region.regionCode]?.breached && (
+                        <span className="alert-badge breached">{language === "en" ? "below threshold" : "低于阈值"}</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          
+          <div className="dashboard-card">
+            <h3>{language === "en" ? "Regional Averages" : "区域平均值"}</h3>
+            {regions.filter(r => r.observationCount >= MIN_REGION_SAMPLES).length === 0 ? (
+              <p>
+                {language === "en" 
+                  ? `Averages are revealed once a region has ${MIN_REGION_SAMPLES} samples` 
+                  : `区域样本达到${MIN_REGION_SAMPLES}个后可公开平均值`
+                }
+              </p>
+            ) : (
+              <div className="region-list">
+                {regions.filter(r => r.observationCount >= MIN_REGION_SAMPLES).map(region => {
+                  const average = regionAverages[region.regionCode];
+                  return (
+                    <div className="region-item" key={region.regionCode}>
+                      <div className="region-name">{region.regionCode}</div>
+                      <div className="region-count">
+                        {average?.isRevealed
+                          ? `${formatSkyQuality(average.average)} (n=${average.sampleCount})`
+                          : (language === "en" ? "Encrypted" : "已加密")
+                        }
+                      </div>
+                      <div className="region-status">
+                        {average?.isPending && (
+                          <span className="decryption-badge pending">{language === "en" ? "decrypting" : "解密中"}</span>
+                        )}
+                        {account && !average?.isPending && canRevealRegion(region, revealedSamples[region.regionCode] || 0, average) && (
+                          <button 
+                            className="action-btn info-btn"
+                            onClick={() => revealRegionAverage(region.regionCode)}
+                          >
+                            {average?.isRevealed
+                              ? (language === "en" ? "Refresh average" : "更新平均值")
+                              : (language === "en" ? "Reveal average" : "公开平均值")
+                            }
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          
+          <div className="dashboard-card">
+            <h3>{language === "en" ? "Monthly Contributions" : "月度贡献"}</h3>
+            <ContributionChart records={records} language={language} />
+          </div>
+        </div>
+        
+        <div className="map-section">
+          <h2>{language === "en" ? "Light Pollution Map" : "光污染地图"}</h2>
+          <p className="subtitle">
+            {language === "en" 
+              ? "Regional aggregates only: sample counts and publicly revealed averages" 
+              : "仅显示区域聚合数据：样本数量和已公开的平均值"
+            }
+          </p>
+          <BrightnessMap regions={regions} averages={regionAverages} language={language} />
+        </div>
+        
+        <div className="map-section">
+          <h2>{language === "en" ? "Year-over-Year Trends" : "年度趋势"}</h2>
+          <p className="subtitle">
+            {language === "en" 
+              ? "Yearly averages are compared under encryption; only the direction and size of the change is revealed" 
+              : "年度平均值在加密状态下比较，仅公开变化的方向和幅度"
+            }
+          </p>
+          <div className="dashboard-card">
+            <RegionTrends regions={regions} canReveal={!!provider} onReveal={revealRegionTrend} language={language} />
+          </div>
+        </div>
+        
+        {openOperations.length > 0 && (
+          <div className="operations-section">
+            <h2>{language === "en" ? "Unfinished Operations" : "未完成的操作"}</h2>
+            {openOperations.map(op => (
+              <div className="operation-item" key={op.id}>
+                <div className="operation-info">
+                  <div className="operation-title">
+                    {op.kind === "submitBatch"
+                      ? `${language === "en" ? "Submit records" : "提交记录"} (${op.context.records.length})`
+                      : `${op.kind === "submit"
+                        ? (language === "en" ? "Submit record" : "提交记录")
+                        : (language === "en" ? "Moderate record" : "审核记录")
+                      } #${op.context.recordId.substring(0, 6)}`
+                    }
+                  </div>
+                  <div className="operation-steps">
+                    {op.steps.map(step => (
+                      <span key={step.name} className={`operation-step ${step.state}`} title={step.error || step.txHash}>
+                        {step.name}
+                      </span>
+                    ))}
+                  </div>
+                  {op.error && <div className="operation-error">{op.error}</div>}
+                </div>
+                {op.state === "failed" && (
+                  <div className="actions">
+                    <button className="action-btn success-btn" onClick={() => handleOperation(op, "resume")}>
+                      {language === "en" ? "Resume" : "继续"}
+                    </button>
+                    {op.steps.some(step => step.state === "done" || step.partial) && (
+                      <button className="action-btn danger-btn" onClick={() => handleOperation(op, "rollback")}>
+                        {language === "en" ? "Roll back" : "回滚"}
+                      </button>
+                    )}
+                    <button className="action-btn" onClick={() => recordOps.dismiss(op.id)}>
+                      {language === "en" ? "Dismiss" : "忽略"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        
+        {roles?.isVerifier && (
+          <div className="moderation-section">
+            <div className="section-header">
+              <h2>
+                {language === "en" ? "Moderation Queue" : "审核队列"} ({moderationQueue.length})
+              </h2>
+              <span className="quorum-note">
+                {language === "en" 
+                  ? `${roles.quorum} approval(s) needed to verify` 
+                  : `需要${roles.quorum}个批准才能验证`
+                }
+              </span>
+            </div>
+            {moderationQueue.length === 0 ? (
+              <p className="subtitle">
+                {language === "en" ? "No records awaiting review" : "没有待审核的记录"}
+              </p>
+            ) : (
+              moderationQueue.map(record => {
+                const moderation = moderations[record.observationId!];
+                return (
+                  <div className="moderation-item" key={record.id}>
+                    <div className="moderation-info">
+                      <div className="record-id">#{record.id.substring(0, 6)} · {record.location}</div>
+                      <div className="moderation-meta">
+                        {record.contributor.substring(0, 6)}...{record.contributor.substring(38)} · {new Date(record.timestamp * 1000).toLocaleDateString()}
+                        {moderation && ` · ${moderation.approvals}/${roles.quorum} ${language === "en" ? "approvals" : "批准"}`}
+                      </div>
+                      {rejectingId === record.id && (
+                        <textarea
+                          className="reject-reason"
+                          value={rejectReason}
+                          onChange={(e) => setRejectReason(e.target.value)}
+                          placeholder={language === "en" ? "Reason for rejection (required)" : "拒绝原因（必填）"}
+                          rows={2}
+                        />
+                      )}
+                    </div>
+                    <div className="actions">
+                      {rejectingId === record.id ? (
+                        <>
+                          <button 
+                            className="action-btn danger-btn"
+                            onClick={() => moderateRecord(record, "reject")}
+                            disabled={!rejectReason.trim()}
+                          >
+                            {language === "en" ? "Confirm reject" : "确认拒绝"}
+                          </button>
+                          <button className="action-btn" onClick={() => { setRejectingId(null); setRejectReason(""); }}>
+                            {language === "en" ? "Cancel" : "取消"}
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button 
+                            className="action-btn success-btn"
+                            onClick={() => moderateRecord(record, "approve")}
+                            disabled={moderation?.approvedByMe}
+                          >
+                            {moderation?.approvedByMe
+                              ? (language === "en" ? "Approved" : "已批准")
+                              : (language === "en" ? "Approve" : "批准")
+                            }
+                          </button>
+                          <button 
+                            className="action-btn danger-btn"
+                            onClick={() => { setRejectingId(record.id); setRejectReason(""); }}
+                          >
+                            {language === "en" ? "Reject" : "拒绝"}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+        
+        {thresholdAlerts.ownedRegions.length > 0 && (
+          <div className="moderation-section" id="region-alerts">
+            <h2>{language === "en" ? "My Regions" : "我的区域"}</h2>
+            <p className="subtitle">
+              {language === "en"
+                ? `Your threshold stays encrypted. Once ${MIN_REGION_SAMPLES} new samples follow the region's last reveal, the regional average is compared with it and only whether it fell below is revealed.`
+                : `您的阈值始终保持加密。区域上次公开后每新增${MIN_REGION_SAMPLES}个样本，区域平均值会与其比较，仅公开是否低于阈值。`
+              }
+            </p>
+            {thresholdAlerts.breaches.length > 0 && (
+              <div className="operation-error alert-banner">
+                {language === "en" ? "Sky quality fell below your threshold in " : "天空质量低于阈值的区域: "}
+                {Array.from(new Set(thresholdAlerts.breaches.map(b => b.regionCode))).join(", ")}
+                <button className="action-btn" onClick={thresholdAlerts.dismiss}>
+                  {language === "en" ? "Dismiss" : "关闭"}
+                </button>
               </div>
-              <div className="stat-item">
-                <div className="stat-value">{rejectedCount}</div>
-                <div className="stat-label">{language === "en" ? "Rejected" : "已拒绝"}</div>
+            )}
+            {thresholdAlerts.ownedRegions.map(regionCode => {
+              const status = thresholdAlerts.alerts[regionCode];
+              return (
+                <div className="moderation-item" key={regionCode}>
+                  <div className="moderation-meta">
+                    {regionCode}
+                    {status?.isEvaluated && (
+                      <span className={`alert-badge ${status.breached ? "breached" : "ok"}`}>
+                        {status.breached
+                          ? (language === "en" ? "below threshold" : "低于阈值")
+                          : (language === "en" ? "within threshold" : "符合阈值")
+                        } (n={status.sampleCount})
+                      </span>
+                    )}
+                    {status?.isPending && (
+                      <span className="decryption-badge pending">{language === "en" ? "evaluating" : "评估中"}</span>
+                    )}
+                  </div>
+                  <div className="admin-controls">
+                    <input 
+                      type="number"
+                      step="0.01"
+                      min={SQM_RANGE.min}
+                      max={SQM_RANGE.max}
+                      value={thresholdInputs[regionCode] || ""}
+                      onChange={(e) => setThresholdInputs(prev => ({ ...prev, [regionCode]: e.target.value }))}
+                      placeholder={language === "en" ? "Min. SQM (mag/arcsec²)" : "最低SQM (mag/arcsec²)"}
+                    />
+                    <button className="action-btn success-btn" onClick={() => updateRegionThreshold(regionCode)}>
+                      {language === "en" ? "Set threshold" : "设置阈值"}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {roles?.isAdmin && (
+          <div className="moderation-section">
+            <h2>{language === "en" ? "Verifiers" : "验证者"} ({roles.verifierCount})</h2>
+            {!config.deploymentBlock && (
+              <p className="subtitle">
+                {language === "en"
+                  ? "Listing verifiers needs the deployment block in config.json"
+                  : "列出验证者需要在config.json中配置部署区块"}
+              </p>
+            )}
+            {verifiers.map(verifier => (
+              <div className="moderation-item" key={verifier}>
+                <div className="moderation-meta">{verifier}</div>
+                <button 
+                  className="action-btn danger-btn"
+                  disabled={roles.quorum >= roles.verifierCount && roles.quorum > 1}
+                  title={roles.quorum >= roles.verifierCount && roles.quorum > 1
+                    ? (language === "en" ? "Lower the quorum first" : "请先降低法定人数")
+                    : undefined
+                  }
+                  onClick={() => runAdminAction(
+                    lightPollution => lightPollution.removeVerifier(verifier),
+                    language === "en" ? "Verifier removed!" : "验证者已移除!"
+                  )}
+                >
+                  {language === "en" ? "Remove" : "移除"}
+                </button>
               </div>
+            ))}
+            <div className="admin-controls">
+              <input 
+                type="text"
+                value={newVerifier}
+                onChange={(e) => setNewVerifier(e.target.value)}
+                placeholder="0x..."
+              />
+              <button className="action-btn success-btn" onClick={addVerifier}>
+                {language === "en" ? "Add verifier" : "添加验证者"}
+              </button>
+            </div>
+            <div className="admin-controls">
+              <input 
+                type="number"
+                min="1"
+                max={roles.verifierCount}
+                value={newQuorum}
+                onChange={(e) => setNewQuorum(e.target.value)}
+                placeholder={String(roles.quorum)}
+              />
+              <button className="action-btn" onClick={updateQuorum}>
+                {language === "en" ? "Set quorum" : "设置法定人数"}
+              </button>
+            </div>
+            <div className="admin-controls">
+              <input 
+                type="text"
+                value={ownerRegion}
+                onChange={(e) => setOwnerRegion(e.target.value)}
+                placeholder={language === "en" ? "Region code" : "区域代码"}
+              />
+              <input 
+                type="text"
+                value={ownerAddress}
+                onChange={(e) => setOwnerAddress(e.target.value)}
+                placeholder={language === "en" ? "Owner 0x... (empty to unassign)" : "所有者 0x...（留空取消分配）"}
+              />
+              <button className="action-btn" onClick={assignRegionOwner}>
+                {language === "en" ? "Set region owner" : "设置区域所有者"}
+              </button>
             </div>
           </div>
-          
-          <div className="dashboard-card">
-            <h3>{language === "en" ? "Monthly Contributions" : "月度贡献"}</h3>
-            {renderBarChart()}
-          </div>
-        </div>
+        )}
         
         <div className="records-section">
           <div className="section-header">
@@ -590,6 +1577,30 @@ const App: React.FC = () => {
                 <option value="verified">{language === "en" ? "Verified" : "已验证"}</option>
                 <option value="rejected">{language === "en" ? "Rejected" : "已拒绝"}</option>
               </select>
+              <select
+                value=""
+                onChange={(e) => e.target.value && exportData(e.target.value)}
+                className="status-filter"
+                disabled={exporting}
+              >
+                <option value="">
+                  {exporting
+                    ? (language === "en" ? "Exporting..." : "导出中...")
+                    : (language === "en" ? "Export..." : "导出...")
+                  }
+                </option>
+                <optgroup label={language === "en" ? "Regional aggregates" : "区域聚合数据"}>
+                  <option value="regions:csv">CSV</option>
+                  <option value="regions:geojson">GeoJSON</option>
+                  <option value="regions:kml">KML</option>
+                  <option value="regions:globeatnight">Globe at Night CSV</option>
+                </optgroup>
+                <optgroup label={language === "en" ? "Revealed observations" : "已公开观测"}>
+                  <option value="observations:csv">CSV</option>
+                  <option value="observations:geojson">GeoJSON</option>
+                  <option value="observations:kml">KML</option>
+                </optgroup>
+              </select>
               <button 
                 onClick={loadRecords}
                 className="refresh-btn"
@@ -640,23 +1651,41 @@ const App: React.FC = () => {
                         record.status === "verified" ? "已验证" : "已拒绝"
                       }
                     </span>
+                    {record.qualityFlags.map(flag => (
+                      <span key={flag} className="quality-badge">{QUALITY_FLAG_LABELS[flag][language]}</span>
+                    ))}
+                    {record.observationId !== undefined && decryptionTracker.requests[record.observationId] && (
+                      <DecryptionBadge request={decryptionTracker.requests[record.observationId]} language={language} />
+                    )}
                   </div>
                   <div className="table-cell actions">
-                    {isOwner(record.contributor) && record.status === "pending" && (
-                      <>
-                        <button 
-                          className="action-btn success-btn"
-                          onClick={() => verifyRecord(record.id)}
-                        >
-                          {language === "en" ? "Verify" : "验证"}
-                        </button>
-                        <button 
-                          className="action-btn danger-btn"
-                          onClick={() => rejectRecord(record.id)}
-                        >
-                          {language === "en" ? "Reject" : "拒绝"}
-                        </button>
-                      </>
+                    <button className="action-btn" onClick={() => openRecordDetail(record)}>
+                      {language === "en" ? "Details" : "详情"}
+                    </button>
+                    {isOwner(record.contributor) && record.observationId !== undefined && (
+                      <button 
+                        className="action-btn info-btn"
+                        onClick={() => viewMyReading(record)}
+                        disabled={decryptingId === record.id}
+                      >
+                        {decryptingId === record.id
+                          ? (language === "en" ? "Decrypting..." : "解密中...")
+                          : (language === "en" ? "View my reading" : "查看我的读数")
+                        }
+                      </button>
+                    )}
+                    {isOwner(record.contributor) && record.observationId !== undefined &&
+                      (!decryptionTracker.requests[record.observationId] ||
+                        decryptionTracker.requests[record.observationId].state === "failed") && (
+                      <button 
+                        className="action-btn info-btn"
+                        onClick={() => requestReveal(record)}
+                      >
+                        {decryptionTracker.requests[record.observationId]
+                          ? (language === "en" ? "Retry reveal" : "重试公开")
+                          : (language === "en" ? "Request reveal" : "请求公开")
+                        }
+                      </button>
                     )}
                   </div>
                 </div>
@@ -665,6 +1694,41 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {quarantined.length > 0 && (
+          <div className="quarantine-section">
+            <div className="section-header">
+              <h2>
+                {language === "en" ? "Quarantined Records" : "隔离记录"} ({quarantined.length})
+              </h2>
+              <button className="refresh-btn" onClick={() => setShowQuarantine(!showQuarantine)}>
+                {showQuarantine 
+                  ? (language === "en" ? "Hide" : "隐藏") 
+                  : (language === "en" ? "Show" : "显示")
+                }
+              </button>
+            </div>
+            <p className="subtitle">
+              {language === "en" 
+                ? "These records failed schema validation and are excluded from statistics" 
+                : "这些记录未通过格式验证，已从统计中排除"
+              }
+            </p>
+            {showQuarantine && (
+              <div className="records-list">
+                {quarantined.map(item => (
+                  <div className="quarantine-row" key={item.id}>
+                    <div className="record-id">#{item.id.substring(0, 12)}</div>
+                    <ul className="quarantine-errors">
+                      {item.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                    <code className="quarantine-raw">{item.raw.substring(0, 200)}</code>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="partners-section">
           <h2>{language === "en" ? "Our Partners" : "我们的合作伙伴"}</h2>
           <div className="partners-grid">
@@ -676,6 +1740,30 @@ const App: React.FC = () => {
         </div>
       </div>
   
+      {showImportModal && (
+        <SqmImport 
+          defaultPrecision={loadCellPrecision()}
+          onSubmitBatch={submitReadingBatch}
+          onClose={() => {
+            setShowImportModal(false);
+            loadRecords();
+          }}
+          language={language}
+        />
+      )}
+      
+      {showGanImportModal && (
+        <GlobeAtNightImport 
+          defaultPrecision={loadCellPrecision()}
+          onSubmitBatch={submitReadingBatch}
+          onClose={() => {
+            setShowGanImportModal(false);
+            loadRecords();
+          }}
+          language={language}
+        />
+      )}
+      
       {showCreateModal && (
         <ModalCreate 
           onSubmit={submitRecord} 
@@ -687,6 +1775,28 @@ const App: React.FC = () => {
         />
       )}
       
+      {detailRecord && (
+        <ModalRecordDetail 
+          record={detailRecord}
+          history={history}
+          historyError={historyError}
+          onClose={() => setDetailRecord(null)}
+          language={language}
+        />
+      )}
+      
+      {myReading && (
+        <ModalReading 
+          record={myReading.record}
+          reading={myReading.reading}
+          decryptionRequest={myReading.record.observationId !== undefined
+            ? decryptionTracker.requests[myReading.record.observationId]
+            : undefined}
+          onClose={() => setMyReading(null)}
+          language={language}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -750,8 +1860,8 @@ interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  recordData: any;
-  setRecordData: (data: any) => void;
+  recordData: RecordForm;
+  setRecordData: (data: RecordForm) => void;
   language: "en" | "zh";
 }
 
@@ -771,12 +1881,83 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  const [locating, setLocating] = useState(false);
+  
+  const latitude = parseFloat(recordData.latitude);
+  const longitude = parseFloat(recordData.longitude);
+  const coordinatesValid = !isNaN(latitude) && latitude >= -90 && latitude <= 90 &&
+    !isNaN(longitude) && longitude >= -180 && longitude <= 180;
+  const cell = coordinatesValid ? snapToCell(latitude, longitude, parseInt(recordData.precision, 10)) : null;
+  const cellSize = GEOHASH_PRECISIONS.find(p => String(p.precision) === recordData.precision)?.size;
+  const observedAt = observedTimestamp(recordData);
+  // Checked against the coarse cell centre, the same point that gets encrypted
+  const skyContext = cell && !isNaN(observedAt)
+    ? computeSkyContext(cell.center.latitude, cell.center.longitude, observedAt)
+    : null;
+  const skyAssessment = skyContext ? assessSkyContext(skyContext) : null;
+
+  const fillMyLocation = () => {
+    if (!navigator.geolocation) {
+      alert(language === "en" ? "Geolocation is not available in this browser" : "此浏览器不支持定位");
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLocating(false);
+        setRecordData({
+          ...recordData,
+          latitude: String(position.coords.latitude),
+          longitude: String(position.coords.longitude)
+        });
+      },
+      error => {
+        setLocating(false);
+        alert((language === "en" ? "Could not get location: " : "无法获取位置: ") + error.message);
+      },
+      { enableHighAccuracy: false, timeout: 15000 }
+    );
+  };
+
+  const toggleCondition = (condition: string) => {
+    setRecordData({
+      ...recordData,
+      conditions: recordData.conditions.includes(condition)
+        ? recordData.conditions.filter(c => c !== condition)
+        : [...recordData.conditions, condition]
+    });
+  };
+
   const handleSubmit = () => {
-    if (!recordData.location || !recordData.brightness) {
+    if (!recordData.skyQuality || !recordData.cloudCover || !recordData.latitude || !recordData.longitude) {
       alert(language === "en" ? "Please fill required fields" : "请填写必填字段");
       return;
     }
     
+    if (!coordinatesValid) {
+      alert(language === "en" ? "Please enter valid coordinates" : "请输入有效坐标");
+      return;
+    }
+    
+    if (isNaN(observedAt) || observedAt > Math.floor(Date.now() / 1000)) {
+      alert(language === "en" ? "Observation time cannot be in the future" : "观测时间不能晚于当前时间");
+      return;
+    }
+    
+    const errors = validateObservation(readingFromForm(recordData, latitude, longitude, observedAt));
+    if (errors.length > 0) {
+      alert(errors.join("\n"));
+      return;
+    }
+    
+    if (skyAssessment?.blocked) {
+      alert(language === "en" 
+        ? "The sun is above -12° at this time and place, so the reading cannot measure light pollution" 
+        : "此时此地太阳高度高于-12°，读数无法反映光污染"
+      );
+      return;
+    }
+    
     onSubmit();
   };
 
@@ -799,40 +1980,199 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           
           <div className="form-grid">
             <div className="form-group">
-              <label>{language === "en" ? "Location *" : "位置 *"}</label>
+              <label>{language === "en" ? "Grid Cell Size *" : "网格单元大小 *"}</label>
+              <select 
+                name="precision"
+                value={recordData.precision} 
+                onChange={handleChange}
+                className="select-input"
+              >
+                {GEOHASH_PRECISIONS.map(p => (
+                  <option key={p.precision} value={p.precision}>
+                    {language === "en" ? `Geohash ${p.precision} (${p.size})` : `Geohash ${p.precision}（${p.size}）`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>&nbsp;</label>
+              <button type="button" className="action-btn info-btn" onClick={fillMyLocation} disabled={locating}>
+                {locating
+                  ? (language === "en" ? "Locating..." : "定位中...")
+                  : (language === "en" ? "Use my location" : "使用我的位置")
+                }
+              </button>
+            </div>
+            
+            <div className="form-group">
+              <label>{language === "en" ? "Latitude *" : "纬度 *"}</label>
               <input 
-                type="text"
-                name="location"
-                value={recordData.location} 
+                type="number"
+                name="latitude"
+                value={recordData.latitude} 
+                onChange={handleChange}
+                placeholder="35.6762"
+                min={-90}
+                max={90}
+                step="any"
+                className="text-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>{language === "en" ? "Longitude *" : "经度 *"}</label>
+              <input 
+                type="number"
+                name="longitude"
+                value={recordData.longitude} 
+                onChange={handleChange}
+                placeholder="139.6503"
+                min={-180}
+                max={180}
+                step="any"
+                className="text-input"
+              />
+            </div>
+            
+            <div className="form-group full-width cell-preview">
+              {cell
+                ? (language === "en" 
+                    ? `Published as cell ${cell.regionCode} (${cellSize}). Your exact coordinates stay in this browser.` 
+                    : `将以网格单元 ${cell.regionCode}（${cellSize}）发布，精确坐标仅保留在此浏览器中。`)
+                : (language === "en" 
+                    ? "Enter coordinates or use your location to choose a grid cell" 
+                    : "输入坐标或使用您的位置以选择网格单元")
+              }
+            </div>
+            
+            <div className="form-group">
+              <label>{language === "en" ? "Observed At" : "观测时间"}</label>
+              <input 
+                type="datetime-local"
+                name="observedAt"
+                value={recordData.observedAt} 
+                onChange={handleChange}
+                className="text-input"
+              />
+            </div>
+            
+            {skyContext && skyAssessment && (
+              <div className={`form-group full-width sky-context ${skyAssessment.blocked ? "blocked" : skyAssessment.flags.length > 0 ? "warning" : "ok"}`}>
+                <div>
+                  {language === "en" ? "Sun" : "太阳"} {skyContext.sunAltitude.toFixed(1)}° · {" "}
+                  {language === "en" ? "Moon" : "月亮"} {skyContext.moonAltitude.toFixed(1)}° · {" "}
+                  {language === "en" ? "Illuminated" : "照亮"} {Math.round(skyContext.moonIllumination * 100)}%
+                </div>
+                <div>
+                  {skyAssessment.blocked
+                    ? (language === "en" ? "Sun too high: readings taken before nautical dusk are rejected" : "太阳过高：航海暮光前的读数将被拒绝")
+                    : skyAssessment.flags.length > 0
+                      ? (language === "en" 
+                          ? `Flagged as ${skyAssessment.flags.map(f => QUALITY_FLAG_LABELS[f].en).join(", ")}; stored but excluded from regional averages` 
+                          : `标记为${skyAssessment.flags.map(f => QUALITY_FLAG_LABELS[f].zh).join("、")}；将被存储但不计入区域平均值`)
+                      : (language === "en" ? "Astronomically dark, no moonlight" : "天文暗夜，无月光")
+                  }
+                </div>
+              </div>
+            )}
+            
+            <div className="form-group">
+              <label>{language === "en" ? "Sky Quality (mag/arcsec²) *" : "天空质量 (mag/arcsec²) *"}</label>
+              <input 
+                type="number"
+                name="skyQuality"
+                value={recordData.skyQuality} 
                 onChange={handleChange}
-                placeholder={language === "en" ? "e.g., Tokyo, Japan" : "例如：日本东京"} 
+                placeholder="21.35"
+                min={SQM_RANGE.min}
+                max={SQM_RANGE.max}
+                step="0.01"
                 className="text-input"
               />
             </div>
             
             <div className="form-group">
-              <label>{language === "en" ? "Brightness Level *" : "亮度级别 *"}</label>
+              <label>{language === "en" ? "Instrument *" : "仪器 *"}</label>
+              <select 
+                name="instrument"
+                value={recordData.instrument} 
+                onChange={handleChange}
+                className="select-input"
+              >
+                {INSTRUMENT_TYPES.map(instrument => (
+                  <option key={instrument} value={instrument}>{instrument}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>{language === "en" ? "Bortle Class" : "波特尔等级"}</label>
               <select 
-                name="brightness"
-                value={recordData.brightness} 
+                name="bortle"
+                value={recordData.bortle} 
                 onChange={handleChange}
                 className="select-input"
               >
-                <option value="">{language === "en" ? "Select level" : "选择级别"}</option>
-                <option value="Very Dark">{language === "en" ? "Very Dark" : "非常暗"}</option>
-                <option value="Dark">{language === "en" ? "Dark" : "暗"}</option>
-                <option value="Moderate">{language === "en" ? "Moderate" : "中等"}</option>
-                <option value="Bright">{language === "en" ? "Bright" : "亮"}</option>
-                <option value="Very Bright">{language === "en" ? "Very Bright" : "非常亮"}</option>
+                <option value="">{language === "en" ? "Not assessed" : "未评估"}</option>
+                {Array.from({ length: BORTLE_RANGE.max - BORTLE_RANGE.min + 1 }, (_, i) => BORTLE_RANGE.min + i).map(bortle => (
+                  <option key={bortle} value={bortle}>{bortle}</option>
+                ))}
               </select>
             </div>
             
+            <div className="form-group">
+              <label>{language === "en" ? "Limiting Magnitude (NELM)" : "肉眼极限星等 (NELM)"}</label>
+              <input 
+                type="number"
+                name="nelm"
+                value={recordData.nelm} 
+                onChange={handleChange}
+                placeholder="6.2"
+                min={NELM_RANGE.min}
+                max={NELM_RANGE.max}
+                step="0.1"
+                className="text-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>{language === "en" ? "Cloud Cover (%) *" : "云量 (%) *"}</label>
+              <input 
+                type="number"
+                name="cloudCover"
+                value={recordData.cloudCover} 
+                onChange={handleChange}
+                min={CLOUD_COVER_RANGE.min}
+                max={CLOUD_COVER_RANGE.max}
+                step="1"
+                className="text-input"
+              />
+            </div>
+            
             <div className="form-group full-width">
-              <label>{language === "en" ? "Notes" : "备注"}</label>
+              <label>{language === "en" ? "Observing Conditions" : "观测条件"}</label>
+              <div className="condition-options">
+                {OBSERVING_CONDITIONS.map(condition => (
+                  <label key={condition} className="condition-option">
+                    <input 
+                      type="checkbox"
+                      checked={recordData.conditions.includes(condition)}
+                      onChange={() => toggleCondition(condition)}
+                    />
+                    {condition}
+                  </label>
+                ))}
+              </div>
+            </div>
+            
+            <div className="form-group full-width">
+              <label>{language === "en" ? "Notes (stored publicly, not encrypted)" : "备注（公开存储，不加密）"}</label>
               <textarea 
                 name="notes"
                 value={recordData.notes} 
                 onChange={handleChange}
+                maxLength={1000}
                 placeholder={language === "en" ? "Additional observations..." : "额外观察记录..."} 
                 className="text-area"
                 rows={3}
@@ -872,4 +2212,169 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   );
 };
 
+interface DecryptionBadgeProps {
+  request: TrackedDecryptionRequest;
+  language: "en" | "zh";
+}
+
+const DecryptionBadge: React.FC<DecryptionBadgeProps> = ({ request, language }) => {
+  const labels = {
+    pending: language === "en" ? "decrypting" : "解密中",
+    fulfilled: language === "en" ? "revealed" : "已公开",
+    failed: language === "en" ? "reveal failed" : "公开失败"
+  };
+  
+  return (
+    <span className={`decryption-badge ${request.state}`} title={request.error || `Request #${request.requestIds.join(", #")}`}>
+      {labels[request.state]}
+    </span>
+  );
+};
+
+interface ModalReadingProps {
+  record: LightPollutionRecord;
+  reading: ObservationPlaintext;
+  decryptionRequest?: TrackedDecryptionRequest;
+  onClose: () => void;
+  language: "en" | "zh";
+}
+
+const ModalReading: React.FC<ModalReadingProps> = ({ record, reading, decryptionRequest, onClose, language }) => {
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>{language === "en" ? "My Decrypted Reading" : "我的解密读数"}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice-banner">
+            <div className="key-icon"></div> 
+            {language === "en" 
+              ? "Decrypted locally with your signature, visible only in this browser" 
+              : "使用您的签名在本地解密，仅在此浏览器中可见"
+            }
+          </div>
+          
+          <div className="reading-grid">
+            <div className="reading-label">{language === "en" ? "Location" : "位置"}</div>
+            <div>{record.location}</div>
+            <div className="reading-label">{language === "en" ? "Sky Quality" : "天空质量"}</div>
+            <div>{reading.skyQuality.toFixed(2)} mag/arcsec²</div>
+            <div className="reading-label">{language === "en" ? "Bortle Class" : "波特尔等级"}</div>
+            <div>{reading.bortle ?? "-"}</div>
+            <div className="reading-label">{language === "en" ? "Limiting Magnitude" : "肉眼极限星等"}</div>
+            <div>{reading.nelm !== undefined ? reading.nelm.toFixed(1) : "-"}</div>
+            <div className="reading-label">{language === "en" ? "Cloud Cover" : "云量"}</div>
+            <div>{reading.cloudCover}%</div>
+            <div className="reading-label">{language === "en" ? "Instrument" : "仪器"}</div>
+            <div>{record.instrument || "-"}</div>
+            <div className="reading-label">{language === "en" ? "Latitude" : "纬度"}</div>
+            <div>{reading.latitude.toFixed(6)}</div>
+            <div className="reading-label">{language === "en" ? "Longitude" : "经度"}</div>
+            <div>{reading.longitude.toFixed(6)}</div>
+            <div className="reading-label">{language === "en" ? "Observed At" : "观测时间"}</div>
+            <div>{new Date(reading.timestamp * 1000).toLocaleString()}</div>
+            <div className="reading-label">{language === "en" ? "Public Reveal" : "公开解密"}</div>
+            <div>
+              {decryptionRequest 
+                ? <DecryptionBadge request={decryptionRequest} language={language} />
+                : (language === "en" ? "Not requested" : "未请求")
+              }
+            </div>
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">
+            {language === "en" ? "Close" : "关闭"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ModalRecordDetailProps {
+  record: LightPollutionRecord;
+  history: StatusHistoryEntry[] | null;
+  historyError: string;
+  onClose: () => void;
+  language: "en" | "zh";
+}
+
+const ModalRecordDetail: React.FC<ModalRecordDetailProps> = ({ record, history, historyError, onClose, language }) => {
+  const actionLabels: Record<StatusHistoryEntry["action"], string> = language === "en"
+    ? { submitted: "Submitted", approved: "Approved", verified: "Verified", rejected: "Rejected", stored: "Record stored" }
+    : { submitted: "已提交", approved: "已批准", verified: "已验证", rejected: "已拒绝", stored: "记录已存储" };
+  
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>{language === "en" ? "Record" : "记录"} #{record.id.substring(0, 6)}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="reading-grid">
+            <div className="reading-label">{language === "en" ? "Location" : "位置"}</div>
+            <div>{record.location}</div>
+            <div className="reading-label">{language === "en" ? "Contributor" : "贡献者"}</div>
+            <div>{record.contributor}</div>
+            <div className="reading-label">{language === "en" ? "Submitted" : "提交时间"}</div>
+            <div>{new Date(record.timestamp * 1000).toLocaleString()}</div>
+            <div className="reading-label">{language === "en" ? "Observation" : "观测"}</div>
+            <div>{record.observationId !== undefined ? `#${record.observationId}` : "-"}</div>
+            <div className="reading-label">{language === "en" ? "Status" : "状态"}</div>
+            <div><span className={`status-badge ${record.status}`}>{record.status}</span></div>
+            {record.notes && (
+              <>
+                <div className="reading-label">{language === "en" ? "Notes" : "备注"}</div>
+                <div>{record.notes}</div>
+              </>
+            )}
+          </div>
+          
+          <h3 className="timeline-title">{language === "en" ? "Status History" : "状态历史"}</h3>
+          {historyError ? (
+            <div className="operation-error">{historyError}</div>
+          ) : history === null ? (
+            <div className="subtitle">{language === "en" ? "Loading history..." : "加载历史..."}</div>
+          ) : history.length === 0 ? (
+            <div className="subtitle">{language === "en" ? "No history found" : "未找到历史"}</div>
+          ) : (
+            <ol className="timeline">
+              {history.map(entry => (
+                <li key={`${entry.txHash}-${entry.logIndex}`} className={`timeline-entry ${entry.status}`}>
+                  <div className="timeline-action">
+                    {actionLabels[entry.action]}
+                    {entry.approvals !== undefined && ` (${entry.approvals})`}
+                    {entry.source === "store" && (
+                      <span className="timeline-source">{language === "en" ? "record store" : "记录存储"}</span>
+                    )}
+                  </div>
+                  <div className="timeline-meta">
+                    {entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleString() : `#${entry.blockNumber}`}
+                    {entry.actor && ` · ${entry.actor.substring(0, 6)}...${entry.actor.substring(38)}`}
+                    {` · ${entry.txHash.substring(0, 10)}...`}
+                  </div>
+                  {entry.reason && <div className="timeline-reason">{entry.reason}</div>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">
+            {language === "en" ? "Close" : "关闭"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export default App;
\ No newline at end of file
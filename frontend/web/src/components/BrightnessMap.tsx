@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import worldOutline from '../data/worldOutline.json';
+import { CellBounds, regionCellBounds } from '../geohash';
+import { formatSkyQuality, skyQualityBand, SKY_QUALITY_BANDS, SQM_SCALE } from '../fhe';
+import type { RegionAverage, RegionSummary } from '../contract';
+
+interface BrightnessMapProps {
+  regions: RegionSummary[];
+  averages: Record<string, RegionAverage>;
+  language: 'en' | 'zh';
+}
+
+interface MapCell {
+  regionCode: string;
+  bounds: CellBounds;
+  sampleCount: number;
+  average?: RegionAverage;
+}
+
+// One colour per sky quality band, darkest sky first
+const BAND_COLORS = ['#0d1b4c', '#1f6fb2', '#3fa34d', '#f2c12e', '#f07f2e', '#e8453c'];
+const UNREVEALED_COLOR = 'rgba(255, 255, 255, 0.35)';
+const OCEAN_COLOR = '#0a1128';
+const LAND_COLOR = '#1c2541';
+const COASTLINE_COLOR = '#3a506b';
+// Fine grid cells would vanish at world scale, so draw them at least this size
+const MIN_CELL_PX = 4;
+
+// Natural Earth 1:110m land (public domain), simplified to 0.1° [lon, lat] rings
+const rings = worldOutline as number[][][];
+
+const BrightnessMap: React.FC<BrightnessMapProps> = ({ regions, averages, language }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<{ cell: MapCell; x: number; y: number } | null>(null);
+
+  const height = width / 2;
+
+  // Only region-level aggregates reach the map: public sample counts and revealed averages
+  const cells: MapCell[] = [];
+  let unmappedCount = 0;
+  for (const region of regions) {
+    const bounds = regionCellBounds(region.regionCode);
+    if (!bounds) {
+      unmappedCount++;
+      continue;
+    }
+    const average = averages[region.regionCode];
+    cells.push({
+      regionCode: region.regionCode,
+      bounds,
+      sampleCount: region.observationCount,
+      average: average?.isRevealed ? average : undefined
+    });
+  }
+
+  const project = (lon: number, lat: number): [number, number] => [
+    ((lon + 180) / 360) * width,
+    ((90 - lat) / 180) * height
+  ];
+
+  const cellRect = (bounds: CellBounds) => {
+    const [x1, y1] = project(bounds.minLon, bounds.maxLat);
+    const [x2, y2] = project(bounds.maxLon, bounds.minLat);
+    const w = Math.max(x2 - x1, MIN_CELL_PX);
+    const h = Math.max(y2 - y1, MIN_CELL_PX);
+    return { x: (x1 + x2 - w) / 2, y: (y1 + y2 - h) / 2, w, h };
+  };
+
+  const cellColor = (cell: MapCell) => {
+    if (!cell.average) return UNREVEALED_COLOR;
+    return BAND_COLORS[skyQualityBand(cell.average.average / SQM_SCALE)];
+  };
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    ctx.fillStyle = OCEAN_COLOR;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = LAND_COLOR;
+    ctx.strokeStyle = COASTLINE_COLOR;
+    ctx.lineWidth = 0.5;
+    for (const ring of rings) {
+      ctx.beginPath();
+      ring.forEach(([lon, lat], i) => {
+        const [x, y] = project(lon, lat);
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    for (const cell of cells) {
+      const rect = cellRect(cell.bounds);
+      ctx.fillStyle = cellColor(cell);
+      ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+      if (hovered?.cell.regionCode === cell.regionCode) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+      }
+    }
+  }, [width, regions, averages, hovered]);
+
+  const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - box.left;
+    const y = e.clientY - box.top;
+    // Later cells are drawn on top, so search from the end
+    const cell = [...cells].reverse().find(c => {
+      const rect = cellRect(c.bounds);
+      return x >= rect.x && x <= rect.x + rect.w && y >= rect.y && y <= rect.y + rect.h;
+    });
+    setHovered(cell ? { cell, x, y } : null);
+  };
+
+  return (
+    <div className="brightness-map" ref={containerRef}>
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        onMouseMove={onMouseMove}
+        onMouseLeave={() => setHovered(null)}
+      />
+
+      {hovered && (
+        <div className="map-tooltip" style={{ left: hovered.x + 12, top: hovered.y + 12 }}>
+          <div className="map-tooltip-title">{hovered.cell.regionCode}</div>
+          <div>
+            {hovered.cell.sampleCount} {language === 'en' ? 'samples' : '个样本'}
+          </div>
+          <div>
+            {hovered.cell.average
+              ? `${language === 'en' ? 'Average' : '平均值'}: ${formatSkyQuality(hovered.cell.average.average)} (n=${hovered.cell.average.sampleCount})`
+              : (language === 'en' ? 'Average not revealed' : '平均值未公开')
+            }
+          </div>
+        </div>
+      )}
+
+      <div className="map-legend">
+        {SKY_QUALITY_BANDS.map((band, i) => (
+          <span className="map-legend-item" key={band.label}>
+            <span className="map-legend-swatch" style={{ background: BAND_COLORS[i] }} />
+            {band.min > 0 ? `≥${band.min.toFixed(2)}` : `<${SKY_QUALITY_BANDS[i - 1].min.toFixed(2)}`} {band.label}
+          </span>
+        ))}
+        <span className="map-legend-item">
+          <span className="map-legend-swatch" style={{ background: UNREVEALED_COLOR }} />
+          {language === 'en' ? 'Not revealed' : '未公开'}
+        </span>
+      </div>
+
+      {unmappedCount > 0 && (
+        <div className="map-note">
+          {language === 'en'
+            ? `${unmappedCount} region(s) without a grid cell are not shown`
+            : `${unmappedCount}个没有网格单元的区域未显示`
+          }
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrightnessMap;
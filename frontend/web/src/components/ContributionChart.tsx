@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { BarElement, CategoryScale, Chart as ChartJS, Legend, LinearScale, Tooltip } from 'chart.js';
+import type { LightPollutionRecord, RecordStatus } from '../recordSchema';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface ContributionChartProps {
+  records: LightPollutionRecord[];
+  language: 'en' | 'zh';
+}
+
+const MONTHS = {
+  en: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  zh: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月']
+};
+
+// Same palette as the status badges in App.css
+const STATUS_SERIES: { status: RecordStatus; color: string; label: { en: string; zh: string } }[] = [
+  { status: 'verified', color: '#27ae60', label: { en: 'Verified', zh: '已验证' } },
+  { status: 'pending', color: '#f39c12', label: { en: 'Pending', zh: '待处理' } },
+  { status: 'rejected', color: '#e74c3c', label: { en: 'Rejected', zh: '已拒绝' } }
+];
+const TOTAL_COLOR = '#3498db';
+
+const ContributionChart: React.FC<ContributionChartProps> = ({ records, language }) => {
+  const [byStatus, setByStatus] = useState(false);
+
+  // Submission times are unix seconds; months are counted in the viewer's local time
+  const years = useMemo(() => {
+    const found = new Set(records.map(r => new Date(r.timestamp * 1000).getFullYear()));
+    found.add(new Date().getFullYear());
+    return Array.from(found).sort((a, b) => b - a);
+  }, [records]);
+  const [year, setYear] = useState(years[0]);
+
+  const counts = useMemo(() => {
+    const perStatus: Record<RecordStatus, number[]> = {
+      pending: new Array(12).fill(0),
+      verified: new Array(12).fill(0),
+      rejected: new Array(12).fill(0)
+    };
+    for (const record of records) {
+      const date = new Date(record.timestamp * 1000);
+      if (date.getFullYear() !== year) continue;
+      perStatus[record.status][date.getMonth()]++;
+    }
+    return perStatus;
+  }, [records, year]);
+
+  const datasets = byStatus
+    ? STATUS_SERIES.map(series => ({
+        label: series.label[language],
+        data: counts[series.status],
+        backgroundColor: series.color,
+        stack: 'status'
+      }))
+    : [{
+        label: language === 'en' ? 'Submissions' : '提交数',
+        data: counts.pending.map((_, month) => STATUS_SERIES.reduce((sum, s) => sum + counts[s.status][month], 0)),
+        backgroundColor: TOTAL_COLOR
+      }];
+  const yearTotal = datasets.reduce((sum, d) => sum + d.data.reduce((a, b) => a + b, 0), 0);
+
+  return (
+    <div className="contribution-chart">
+      <div className="chart-controls">
+        <select value={year} onChange={(e) => setYear(parseInt(e.target.value, 10))} className="status-filter">
+          {years.map(y => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <label>
+          <input type="checkbox" checked={byStatus} onChange={(e) => setByStatus(e.target.checked)} />
+          {language === 'en' ? ' By status' : ' 按状态'}
+        </label>
+      </div>
+
+      {yearTotal === 0 ? (
+        <p>{language === 'en' ? `No submissions in ${year}` : `${year}年没有提交`}</p>
+      ) : (
+        <div className="chart-canvas">
+          <Bar
+            data={{ labels: MONTHS[language], datasets }}
+            options={{
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: { legend: { display: byStatus } },
+              scales: {
+                x: { stacked: byStatus, grid: { display: false } },
+                y: { stacked: byStatus, beginAtZero: true, ticks: { precision: 0 } }
+              }
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContributionChart;
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { canRevealAt, config, getLightPollutionClientReadOnly } from '../contract';
+import type { Ranking, RegionSummary } from '../contract';
+
+interface DarkestSkiesProps {
+  regions: RegionSummary[];
+  canRequest: boolean;
+  onRequest: (regionCodes: string[]) => Promise<void>;
+  language: 'en' | 'zh';
+}
+
+// Mirrors LightPollution_FHE.MAX_RANKING_SIZE and MIN_REGION_SAMPLES
+const MAX_RANKING_SIZE = 8;
+const MIN_REGION_SAMPLES = 3;
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// Any earlier reveal of the region, ranking or not, counts towards the guard
+const canRank = (region: RegionSummary, revealedSamples: number) =>
+  region.observationCount >= MIN_REGION_SAMPLES && canRevealAt(region.observationCount, revealedSamples);
+
+const DarkestSkies: React.FC<DarkestSkiesProps> = ({ regions, canRequest, onRequest, language }) => {
+  const [rankings, setRankings] = useState<Ranking[]>([]);
+  const [revealedSamples, setRevealedSamples] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [prefix, setPrefix] = useState('');
+  const [requesting, setRequesting] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const eligible = regions.filter(r => r.observationCount >= MIN_REGION_SAMPLES);
+  const countOf = (regionCode: string) => regions.find(r => r.regionCode === regionCode)?.observationCount || 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const lightPollution = await getLightPollutionClientReadOnly();
+        if (!lightPollution) return;
+        const [nextRankings, nextRevealed] = await Promise.all([
+          // Earlier rankings are only found through their request events
+          config.deploymentBlock ? lightPollution.getRankings() : Promise.resolve([]),
+          lightPollution.getRevealedSampleCounts(eligible.map(r => r.regionCode))
+        ]);
+        if (cancelled) return;
+        setRankings(nextRankings);
+        setRevealedSamples(nextRevealed);
+      } catch (e) {
+        console.error('Error loading rankings:', e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [regions, reloadKey]);
+
+  const rankable = (regionCode: string) => {
+    const region = regions.find(r => r.regionCode === regionCode);
+    return !!region && canRank(region, revealedSamples[regionCode] || 0);
+  };
+
+  const toggle = (regionCode: string) => {
+    const next = new Set(selected);
+    if (next.has(regionCode)) next.delete(regionCode);
+    else if (next.size < MAX_RANKING_SIZE) next.add(regionCode);
+    setSelected(next);
+  };
+
+  const request = async (regionCodes: string[]) => {
+    setRequesting(true);
+    try {
+      await onRequest(regionCodes);
+      setSelected(new Set());
+      setReloadKey(key => key + 1);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const candidates = eligible.filter(r => r.regionCode.toLowerCase().startsWith(prefix.trim().toLowerCase()));
+  const selection = Array.from(selected);
+
+  return (
+    <div className="darkest-skies">
+      {canRequest && (
+        <div className="ranking-builder">
+          <h3>{language === 'en' ? 'Rank sites' : '排名站点'}</h3>
+          <div className="chart-controls">
+            <input
+              type="text"
+              value={prefix}
+              onChange={(e) => setPrefix(e.target.value)}
+              placeholder={language === 'en' ? 'Region prefix, e.g. u4' : '区域前缀，例如 u4'}
+            />
+            <span>
+              {selection.length}/{MAX_RANKING_SIZE} {language === 'en' ? 'selected' : '已选择'}
+            </span>
+            <button
+              className="action-btn info-btn"
+              disabled={requesting || selection.length < 2}
+              onClick={() => request(selection)}
+            >
+              {language === 'en' ? 'Rank under encryption' : '加密排名'}
+            </button>
+          </div>
+          {candidates.length === 0 ? (
+            <p>
+              {language === 'en'
+                ? `Regions can be ranked once they have ${MIN_REGION_SAMPLES} samples`
+                : `区域样本达到${MIN_REGION_SAMPLES}个后可参与排名`
+              }
+            </p>
+          ) : (
+            <div className="ranking-candidates">
+              {candidates.map(region => {
+                const allowed = rankable(region.regionCode);
+                return (
+                  <label className={`ranking-candidate ${allowed ? '' : 'empty'}`} key={region.regionCode}>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(region.regionCode)}
+                      disabled={!allowed || requesting || (!selected.has(region.regionCode) && selected.size >= MAX_RANKING_SIZE)}
+                      onChange={() => toggle(region.regionCode)}
+                    />
+                    {region.regionCode} (n={region.observationCount})
+                    {!allowed && (language === 'en' ? ' · waiting for new samples' : ' · 等待新样本')}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!config.deploymentBlock ? (
+        <p>{language === 'en' ? 'Earlier rankings need the deployment block in config.json' : '查看历史排名需要在config.json中配置部署区块'}</p>
+      ) : rankings.length === 0 ? (
+        <p>{language === 'en' ? 'No rankings yet' : '暂无排名'}</p>
+      ) : (
+        rankings.map(ranking => {
+          const order = ranking.regionCodes
+            .map((regionCode, i) => ({ regionCode, rank: ranking.ranks[i], sampleCount: ranking.sampleCounts[i] }))
+            .sort((a, b) => a.rank - b.rank || a.regionCode.localeCompare(b.regionCode));
+          const stale = ranking.isRevealed && ranking.regionCodes.some((code, i) => countOf(code) !== ranking.sampleCounts[i]);
+          return (
+            <div className="leaderboard" key={ranking.rankingKey}>
+              <div className="leaderboard-header">
+                <span>
+                  {ranking.isRevealed
+                    ? `${language === 'en' ? 'Ranked' : '排名于'} ${new Date(ranking.revealedAt * 1000).toLocaleDateString()}`
+                    : ranking.regionCodes.join(', ')
+                  }
+                </span>
+                {ranking.isPending && (
+                  <span className="decryption-badge pending">{language === 'en' ? 'decrypting' : '解密中'}</span>
+                )}
+                {canRequest && !ranking.isPending && (!ranking.isRevealed || stale) && ranking.regionCodes.every(rankable) && (
+                  <button
+                    className="action-btn info-btn"
+                    disabled={requesting}
+                    onClick={() => request(ranking.regionCodes)}
+                  >
+                    {ranking.isRevealed
+                      ? (language === 'en' ? 'Update ranking' : '更新排名')
+                      : (language === 'en' ? 'Retry ranking' : '重试排名')
+                    }
+                  </button>
+                )}
+              </div>
+              {ranking.isRevealed && order.map(entry => (
+                <div className="leaderboard-row" key={entry.regionCode}>
+                  <span className="leaderboard-rank">{MEDALS[entry.rank - 1] || `#${entry.rank}`}</span>
+                  <span className="region-name">{entry.regionCode}</span>
+                  <span className="region-count">n={entry.sampleCount}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default DarkestSkies;
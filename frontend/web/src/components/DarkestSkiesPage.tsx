@@ -0,0 +1,29 @@
+import React from 'react';
+import DarkestSkies from './DarkestSkies';
+import type { RegionSummary } from '../contract';
+
+interface DarkestSkiesPageProps {
+  regions: RegionSummary[];
+  canRequest: boolean;
+  onRequest: (regionCodes: string[]) => Promise<void>;
+  language: 'en' | 'zh';
+}
+
+const DarkestSkiesPage: React.FC<DarkestSkiesPageProps> = ({ regions, canRequest, onRequest, language }) => (
+  <div className="main-content">
+    <div className="map-section">
+      <h2>{language === 'en' ? 'Darkest Skies' : '最暗天空'}</h2>
+      <p className="subtitle">
+        {language === 'en'
+          ? "Regional averages are compared under encryption; only each site's position on the leaderboard is revealed, never its measurement"
+          : '区域平均值在加密状态下比较，仅公开各站点在排行榜上的名次，从不公开其测量值'
+        }
+      </p>
+      <div className="dashboard-card">
+        <DarkestSkies regions={regions} canRequest={canRequest} onRequest={onRequest} language={language} />
+      </div>
+    </div>
+  </div>
+);
+
+export default DarkestSkiesPage;
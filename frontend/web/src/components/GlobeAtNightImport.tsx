@@ -0,0 +1,255 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GEOHASH_PRECISIONS } from '../geohash';
+import { OBSERVATIONS_PER_INPUT, splitIntoBatches } from '../fhe';
+import { GlobeAtNightImport as ParsedImport, GlobeAtNightObservation, parseGlobeAtNightCsv } from '../globeAtNight';
+import { PendingReading } from './SqmImport';
+
+interface GlobeAtNightImportProps {
+  defaultPrecision: number;
+  // Resolves false when the batch is on-chain but its records were left to resume
+  onSubmitBatch: (batch: PendingReading[]) => Promise<boolean>;
+  onClose: () => void;
+  language: 'en' | 'zh';
+}
+
+const UNKNOWN_COUNTRY = '-';
+
+const isClean = (observation: GlobeAtNightObservation) => observation.flags.length === 0;
+
+const GlobeAtNightImport: React.FC<GlobeAtNightImportProps> = ({ defaultPrecision, onSubmitBatch, onClose, language }) => {
+  const [fileText, setFileText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [precision, setPrecision] = useState(defaultPrecision);
+  const [includeFlagged, setIncludeFlagged] = useState(false);
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [parseError, setParseError] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number; error?: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Observations already on-chain, so a retry after an error or a stop resumes with the rest
+  const [submitted, setSubmitted] = useState<Set<string>>(new Set());
+  const cancelRef = useRef(false);
+
+  // Re-snapped whenever the cell size changes; exact sites are never kept past this point
+  const parsed = useMemo((): ParsedImport | null => {
+    if (!fileText || parseError) return null;
+    return parseGlobeAtNightCsv(fileText, precision);
+  }, [fileText, parseError, precision]);
+
+  const countries = useMemo(() => {
+    const byCountry = new Map<string, GlobeAtNightObservation[]>();
+    for (const observation of parsed?.observations || []) {
+      const country = observation.country || UNKNOWN_COUNTRY;
+      if (!byCountry.has(country)) byCountry.set(country, []);
+      byCountry.get(country)!.push(observation);
+    }
+    return Array.from(byCountry.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [parsed]);
+
+  const usable = (observations: GlobeAtNightObservation[]) =>
+    includeFlagged ? observations : observations.filter(isClean);
+  const selectedObservations = countries
+    .filter(([country]) => !deselected.has(country))
+    .flatMap(([, observations]) => usable(observations));
+  const remainingObservations = selectedObservations.filter(observation => !submitted.has(observation.obsId));
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setDeselected(new Set());
+    setSubmitted(new Set());
+    setProgress(null);
+    try {
+      parseGlobeAtNightCsv(text, precision);
+      setParseError('');
+    } catch (err: any) {
+      setParseError(err.message);
+    }
+    setFileText(text);
+  };
+
+  const toggleCountry = (country: string) => {
+    const next = new Set(deselected);
+    if (next.has(country)) next.delete(country); else next.add(country);
+    setDeselected(next);
+  };
+
+  const submit = async () => {
+    if (remainingObservations.length === 0) return;
+    cancelRef.current = false;
+    setSubmitting(true);
+    setProgress({ done: 0, total: remainingObservations.length });
+
+    const toPending = (observation: GlobeAtNightObservation): PendingReading => ({
+      reading: observation.reading,
+      cell: observation.cell,
+      metadata: { instrument: observation.instrument, conditions: [], qualityFlags: observation.flags }
+    });
+
+    let done = 0;
+    const onChain = new Set(submitted);
+    for (const batch of splitIntoBatches(remainingObservations)) {
+      if (cancelRef.current) break;
+      try {
+        const stored = await onSubmitBatch(batch.map(toPending));
+        done += batch.length;
+        batch.forEach(observation => onChain.add(observation.obsId));
+        setSubmitted(new Set(onChain));
+        if (!stored) {
+          setProgress({
+            done,
+            total: remainingObservations.length,
+            error: language === 'en'
+              ? 'Records not stored, resume them under Unfinished Operations instead of resubmitting'
+              : '记录未保存，请在未完成的操作中继续，不要重新提交'
+          });
+          break;
+        }
+        setProgress({ done, total: remainingObservations.length });
+      } catch (e: any) {
+        setProgress({ done, total: remainingObservations.length, error: e.message || 'Unknown error' });
+        break;
+      }
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal import-modal">
+        <div className="modal-header">
+          <h2>{language === 'en' ? 'Import Globe at Night Data' : '导入Globe at Night数据'}</h2>
+          <button onClick={onClose} className="close-modal" disabled={submitting}>&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice-banner">
+            <div className="key-icon"></div>
+            {language === 'en'
+              ? 'Globe at Night CSV downloads. Every location is snapped to a grid cell before encryption; naked-eye limiting magnitudes are converted to an estimated sky brightness.'
+              : '支持Globe at Night CSV下载文件。所有位置在加密前对齐到网格单元；肉眼极限星等会换算为估计的天空亮度。'
+            }
+          </div>
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label>{language === 'en' ? 'CSV file' : 'CSV文件'}</label>
+              <input type="file" accept=".csv,.txt" onChange={onFile} disabled={submitting} />
+            </div>
+
+            <div className="form-group">
+              <label>{language === 'en' ? 'Grid Cell Size' : '网格单元大小'}</label>
+              <select
+                value={precision}
+                onChange={(e) => setPrecision(parseInt(e.target.value, 10))}
+                className="select-input"
+                disabled={submitting}
+              >
+                {GEOHASH_PRECISIONS.map(p => (
+                  <option key={p.precision} value={p.precision}>Geohash {p.precision} ({p.size})</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={includeFlagged}
+                  onChange={(e) => setIncludeFlagged(e.target.checked)}
+                  disabled={submitting}
+                />
+                {language === 'en' ? ' Include twilight and moonlit observations (kept out of averages)' : ' 包含曙暮光和月光下的观测（不计入平均值）'}
+              </label>
+            </div>
+          </div>
+
+          {parseError && <div className="operation-error">{fileName}: {parseError}</div>}
+
+          {parsed && (
+            <>
+              <p className="subtitle">
+                {parsed.observations.length} {language === 'en' ? 'usable observation(s)' : '条可用观测'}
+                {parsed.skippedRows > 0 && ` · ${parsed.skippedRows} ${language === 'en' ? 'daylight or incomplete rows skipped' : '行日间或不完整数据已跳过'}`}
+              </p>
+
+              <div className="import-nights">
+                <div className="import-night header">
+                  <span></span>
+                  <span>{language === 'en' ? 'Country' : '国家'}</span>
+                  <span>{language === 'en' ? 'Rows' : '行数'}</span>
+                  <span>{language === 'en' ? 'Clean' : '有效'}</span>
+                  <span>SQM</span>
+                  <span>{language === 'en' ? 'Naked eye' : '肉眼'}</span>
+                  <span>{language === 'en' ? 'Cells' : '单元'}</span>
+                </div>
+                {countries.map(([country, observations]) => {
+                  const count = usable(observations).length;
+                  return (
+                    <label className={`import-night ${count === 0 ? 'empty' : ''}`} key={country}>
+                      <input
+                        type="checkbox"
+                        checked={count > 0 && !deselected.has(country)}
+                        disabled={count === 0 || submitting}
+                        onChange={() => toggleCountry(country)}
+                      />
+                      <span>{country}</span>
+                      <span>{observations.length}</span>
+                      <span>{observations.filter(isClean).length}</span>
+                      <span>{observations.filter(o => !o.skyQualityDerived).length}</span>
+                      <span>{observations.filter(o => o.skyQualityDerived).length}</span>
+                      <span>{new Set(observations.map(o => o.cell.regionCode)).size}</span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <p className="subtitle">
+                {language === 'en'
+                  ? `${remainingObservations.length} observation(s) will be encrypted and submitted in ${Math.ceil(remainingObservations.length / OBSERVATIONS_PER_INPUT)} transaction(s)`
+                  : `将加密${remainingObservations.length}条观测，并分${Math.ceil(remainingObservations.length / OBSERVATIONS_PER_INPUT)}笔交易提交`
+                }
+                {remainingObservations.length < selectedObservations.length && (language === 'en'
+                  ? ` · ${selectedObservations.length - remainingObservations.length} already submitted`
+                  : ` · ${selectedObservations.length - remainingObservations.length}条已提交`
+                )}
+              </p>
+            </>
+          )}
+
+          {progress && (
+            <div className={progress.error ? 'operation-error' : 'subtitle'}>
+              {language === 'en' ? 'Submitted' : '已提交'} {progress.done}/{progress.total}
+              {progress.error && ` · ${progress.error}`}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          {submitting ? (
+            <button onClick={() => { cancelRef.current = true; }} className="cancel-btn">
+              {language === 'en' ? 'Stop after current batch' : '当前批次完成后停止'}
+            </button>
+          ) : (
+            <button onClick={onClose} className="cancel-btn">
+              {language === 'en' ? 'Close' : '关闭'}
+            </button>
+          )}
+          <button
+            onClick={submit}
+            disabled={submitting || remainingObservations.length === 0}
+            className="submit-btn primary-btn"
+          >
+            {submitting
+              ? (language === 'en' ? 'Encrypting with FHE...' : '使用FHE加密中...')
+              : (language === 'en' ? 'Submit Securely' : '安全提交')
+            }
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlobeAtNightImport;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { canRevealAt, getLightPollutionClientReadOnly } from '../contract';
+import type { RegionPeriod, RegionSummary, RegionTrend } from '../contract';
+import { formatSkyQuality } from '../fhe';
+
+interface RegionTrendsProps {
+  regions: RegionSummary[];
+  canReveal: boolean;
+  onReveal: (regionCode: string, fromYear: number, toYear: number) => Promise<void>;
+  language: 'en' | 'zh';
+}
+
+// Mirrors LightPollution_FHE.MIN_TREND_SAMPLES
+const MIN_TREND_SAMPLES = 5;
+
+interface RegionTrendState {
+  periods: RegionPeriod[];
+  fromYear: number;
+  toYear: number;
+  trend?: RegionTrend;
+  revealedSamples: number;  // region sample count of its last reveal of any kind
+}
+
+// Re-reveals need enough new samples that the difference cannot isolate a single reading
+const canRevealTrend = (region: RegionSummary, state: RegionTrendState, fromSamples: number, toSamples: number) => {
+  const { trend } = state;
+  if (!trend) return false;
+  if (trend.isRevealed && trend.fromSamples === fromSamples && trend.toSamples === toSamples) return false;
+  return canRevealAt(region.observationCount, state.revealedSamples);
+};
+
+const RegionTrends: React.FC<RegionTrendsProps> = ({ regions, canReveal, onReveal, language }) => {
+  const [states, setStates] = useState<Record<string, RegionTrendState>>({});
+  const [revealing, setRevealing] = useState<string | null>(null);
+
+  const loadTrend = async (regionCode: string, fromYear: number, toYear: number) => {
+    const lightPollution = await getLightPollutionClientReadOnly();
+    if (!lightPollution) return;
+    const trend = await lightPollution.getRegionTrend(regionCode, fromYear, toYear);
+    const { [regionCode]: revealedSamples } = await lightPollution.getRevealedSampleCounts([regionCode]);
+    setStates(prev => prev[regionCode] ? { ...prev, [regionCode]: { ...prev[regionCode], trend, revealedSamples } } : prev);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const lightPollution = await getLightPollutionClientReadOnly();
+        if (!lightPollution) return;
+
+        // A trend needs two periods that each reach the minimum on their own
+        const next: Record<string, RegionTrendState> = {};
+        for (const region of regions) {
+          if (region.observationCount < 2 * MIN_TREND_SAMPLES) continue;
+          const periods = (await lightPollution.getRegionPeriods(region.regionCode))
+            .filter(p => p.observationCount >= MIN_TREND_SAMPLES);
+          if (periods.length < 2) continue;
+          const fromYear = periods[periods.length - 2].year;
+          const toYear = periods[periods.length - 1].year;
+          const trend = await lightPollution.getRegionTrend(region.regionCode, fromYear, toYear);
+          const { [region.regionCode]: revealedSamples } = await lightPollution.getRevealedSampleCounts([region.regionCode]);
+          next[region.regionCode] = { periods, fromYear, toYear, trend, revealedSamples };
+        }
+        if (!cancelled) setStates(next);
+      } catch (e) {
+        console.error('Error loading regional trends:', e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [regions]);
+
+  const selectYears = (regionCode: string, fromYear: number, toYear: number) => {
+    setStates(prev => ({ ...prev, [regionCode]: { ...prev[regionCode], fromYear, toYear, trend: undefined } }));
+    if (fromYear < toYear) {
+      loadTrend(regionCode, fromYear, toYear).catch(e => console.error('Error loading trend:', e));
+    }
+  };
+
+  const reveal = async (regionCode: string, fromYear: number, toYear: number) => {
+    setRevealing(regionCode);
+    try {
+      await onReveal(regionCode, fromYear, toYear);
+      await loadTrend(regionCode, fromYear, toYear);
+    } finally {
+      setRevealing(null);
+    }
+  };
+
+  const entries = Object.entries(states);
+  if (entries.length === 0) {
+    return (
+      <p>
+        {language === 'en'
+          ? `Trends appear once a region has ${MIN_TREND_SAMPLES} samples in each of two years`
+          : `区域在两个年份中各有${MIN_TREND_SAMPLES}个样本后显示趋势`
+        }
+      </p>
+    );
+  }
+
+  return (
+    <div className="region-list">
+      {entries.map(([regionCode, state]) => {
+        const region = regions.find(r => r.regionCode === regionCode);
+        const countOf = (year: number) => state.periods.find(p => p.year === year)?.observationCount || 0;
+        const { trend } = state;
+        return (
+          <div className="region-item trend-item" key={regionCode}>
+            <div className="region-name">{regionCode}</div>
+            <div className="trend-years">
+              <select
+                value={state.fromYear}
+                onChange={(e) => selectYears(regionCode, parseInt(e.target.value, 10), state.toYear)}
+                className="status-filter"
+              >
+                {state.periods.map(p => <option key={p.year} value={p.year}>{p.year} (n={p.observationCount})</option>)}
+              </select>
+              →
+              <select
+                value={state.toYear}
+                onChange={(e) => selectYears(regionCode, state.fromYear, parseInt(e.target.value, 10))}
+                className="status-filter"
+              >
+                {state.periods.map(p => <option key={p.year} value={p.year}>{p.year} (n={p.observationCount})</option>)}
+              </select>
+            </div>
+            <div className={`trend-result ${trend?.isRevealed ? (trend.change === 0 ? 'flat' : trend.darker ? 'darker' : 'brighter') : ''}`}>
+              {state.fromYear >= state.toYear
+                ? (language === 'en' ? 'Pick an earlier first year' : '请先选择较早的年份')
+                : trend?.isRevealed
+                  ? trend.change === 0
+                    ? (language === 'en' ? 'No change' : '无变化')
+                    : `${trend.darker
+                        ? (language === 'en' ? 'Darker by' : '变暗')
+                        : (language === 'en' ? 'Brighter by' : '变亮')
+                      } ${formatSkyQuality(trend.change)} (n=${trend.fromSamples}/${trend.toSamples})`
+                  : (language === 'en' ? 'Encrypted' : '已加密')
+              }
+            </div>
+            <div className="region-status">
+              {trend?.isPending && (
+                <span className="decryption-badge pending">{language === 'en' ? 'decrypting' : '解密中'}</span>
+              )}
+              {canReveal && state.fromYear < state.toYear && !trend?.isPending &&
+                !!region && canRevealTrend(region, state, countOf(state.fromYear), countOf(state.toYear)) && (
+                <button
+                  className="action-btn info-btn"
+                  disabled={revealing === regionCode}
+                  onClick={() => reveal(regionCode, state.fromYear, state.toYear)}
+                >
+                  {trend?.isRevealed
+                    ? (language === 'en' ? 'Refresh trend' : '更新趋势')
+                    : (language === 'en' ? 'Reveal trend' : '公开趋势')
+                  }
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RegionTrends;
@@ -0,0 +1,271 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GEOHASH_PRECISIONS, GridCell, snapToCell } from '../geohash';
+import { QualityFlag } from '../ephemeris';
+import { ObservationPlaintext, OBSERVATIONS_PER_INPUT, splitIntoBatches } from '../fhe';
+import { INSTRUMENT_TYPES } from '../recordSchema';
+import { cleanReadings, nightlyMedian, parseSqmFile, readSqmHeader, SqmImport as ParsedImport, SqmReading } from '../sqmImport';
+
+export interface ReadingMetadata {
+  instrument: string;
+  conditions: string[];
+  qualityFlags: QualityFlag[];
+  notes?: string;
+}
+
+export interface PendingReading {
+  reading: ObservationPlaintext;
+  cell: GridCell;
+  metadata: ReadingMetadata;
+}
+
+interface SqmImportProps {
+  defaultPrecision: number;
+  // Resolves false when the batch is on-chain but its records were left to resume
+  onSubmitBatch: (batch: PendingReading[]) => Promise<boolean>;
+  onClose: () => void;
+  language: 'en' | 'zh';
+}
+
+type SamplingMode = 'median' | 'all';
+
+const SqmImport: React.FC<SqmImportProps> = ({ defaultPrecision, onSubmitBatch, onClose, language }) => {
+  const [fileText, setFileText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [precision, setPrecision] = useState(defaultPrecision);
+  const [sampling, setSampling] = useState<SamplingMode>('median');
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [parseError, setParseError] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number; error?: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Timestamps of readings already on-chain, so a retry after an error or a stop resumes
+  // with the rest instead of submitting the earlier batches again
+  const [submitted, setSubmitted] = useState<Set<number>>(new Set());
+  const cancelRef = useRef(false);
+
+  // The exact site only picks the cell; flags are computed at the cell centre that gets encrypted
+  const { parsed, cell } = useMemo((): { parsed: ParsedImport | null; cell: GridCell | null } => {
+    if (!fileText || parseError) return { parsed: null, cell: null };
+    const header = readSqmHeader(fileText);
+    const snapped = snapToCell(header.latitude, header.longitude, precision);
+    return { parsed: parseSqmFile(fileText, snapped.center.latitude, snapped.center.longitude), cell: snapped };
+  }, [fileText, parseError, precision]);
+
+  const instrument = parsed && INSTRUMENT_TYPES.includes(parsed.header.deviceType) ? parsed.header.deviceType : 'Other';
+  const readingsFor = (night: ParsedImport['nights'][number]): SqmReading[] => {
+    if (sampling === 'all') return cleanReadings(night);
+    const median = nightlyMedian(night);
+    return median ? [median] : [];
+  };
+  const selected = parsed ? parsed.nights.filter(n => !deselected.has(n.night) && readingsFor(n).length > 0) : [];
+  const selectedReadings = selected.flatMap(readingsFor);
+  const remainingReadings = selectedReadings.filter(reading => !submitted.has(reading.timestamp));
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setDeselected(new Set());
+    setSubmitted(new Set());
+    setProgress(null);
+    try {
+      readSqmHeader(text);
+      setParseError('');
+    } catch (err: any) {
+      setParseError(err.message);
+    }
+    setFileText(text);
+  };
+
+  const toggleNight = (night: string) => {
+    const next = new Set(deselected);
+    if (next.has(night)) next.delete(night); else next.add(night);
+    setDeselected(next);
+  };
+
+  const submit = async () => {
+    if (!cell || remainingReadings.length === 0) return;
+    cancelRef.current = false;
+    setSubmitting(true);
+    setProgress({ done: 0, total: remainingReadings.length });
+
+    const pending: PendingReading[] = remainingReadings.map(reading => ({
+      reading: {
+        skyQuality: reading.skyQuality,
+        cloudCover: 0,
+        latitude: cell.center.latitude,
+        longitude: cell.center.longitude,
+        timestamp: reading.timestamp
+      },
+      cell,
+      metadata: { instrument, conditions: [], qualityFlags: reading.flags }
+    }));
+
+    let done = 0;
+    const onChain = new Set(submitted);
+    for (const batch of splitIntoBatches(pending)) {
+      if (cancelRef.current) break;
+      try {
+        const stored = await onSubmitBatch(batch);
+        done += batch.length;
+        batch.forEach(item => onChain.add(item.reading.timestamp));
+        setSubmitted(new Set(onChain));
+        if (!stored) {
+          setProgress({
+            done,
+            total: pending.length,
+            error: language === 'en'
+              ? 'Records not stored, resume them under Unfinished Operations instead of resubmitting'
+              : '记录未保存，请在未完成的操作中继续，不要重新提交'
+          });
+          break;
+        }
+        setProgress({ done, total: pending.length });
+      } catch (e: any) {
+        setProgress({ done, total: pending.length, error: e.message || 'Unknown error' });
+        break;
+      }
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal import-modal">
+        <div className="modal-header">
+          <h2>{language === 'en' ? 'Import SQM Logger Data' : '导入SQM记录仪数据'}</h2>
+          <button onClick={onClose} className="close-modal" disabled={submitting}>&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice-banner">
+            <div className="key-icon"></div>
+            {language === 'en'
+              ? 'Unihedron SQM-LU/SQM-LE files in the IDA/NSBM format. The site position is snapped to a grid cell before anything is encrypted.'
+              : '支持IDA/NSBM格式的Unihedron SQM-LU/SQM-LE文件。站点位置在加密前会被对齐到网格单元。'
+            }
+          </div>
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label>{language === 'en' ? 'Logger file' : '记录文件'}</label>
+              <input type="file" accept=".dat,.txt,.csv" onChange={onFile} disabled={submitting} />
+            </div>
+
+            <div className="form-group">
+              <label>{language === 'en' ? 'Grid Cell Size' : '网格单元大小'}</label>
+              <select
+                value={precision}
+                onChange={(e) => setPrecision(parseInt(e.target.value, 10))}
+                className="select-input"
+                disabled={submitting}
+              >
+                {GEOHASH_PRECISIONS.map(p => (
+                  <option key={p.precision} value={p.precision}>Geohash {p.precision} ({p.size})</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>{language === 'en' ? 'Submit' : '提交方式'}</label>
+              <select
+                value={sampling}
+                onChange={(e) => setSampling(e.target.value as SamplingMode)}
+                className="select-input"
+                disabled={submitting}
+              >
+                <option value="median">{language === 'en' ? 'Nightly median reading' : '每晚中位读数'}</option>
+                <option value="all">{language === 'en' ? 'Every clean reading' : '所有有效读数'}</option>
+              </select>
+            </div>
+          </div>
+
+          {parseError && <div className="operation-error">{fileName}: {parseError}</div>}
+
+          {parsed && cell && (
+            <>
+              <p className="subtitle">
+                {parsed.header.deviceType || instrument} {parsed.header.instrumentId} · {cell.regionCode}
+                {parsed.skippedLines > 0 && ` · ${parsed.skippedLines} ${language === 'en' ? 'daylight or invalid lines skipped' : '行日间或无效数据已跳过'}`}
+              </p>
+
+              <div className="import-nights">
+                <div className="import-night header">
+                  <span></span>
+                  <span>{language === 'en' ? 'Night' : '夜晚'}</span>
+                  <span>{language === 'en' ? 'Readings' : '读数'}</span>
+                  <span>{language === 'en' ? 'Clean' : '有效'}</span>
+                  <span>{language === 'en' ? 'Twilight' : '曙暮光'}</span>
+                  <span>{language === 'en' ? 'Moonlit' : '月光'}</span>
+                  <span>{language === 'en' ? 'Median' : '中位数'}</span>
+                </div>
+                {parsed.nights.map(night => {
+                  const clean = cleanReadings(night);
+                  const median = nightlyMedian(night);
+                  return (
+                    <label className={`import-night ${clean.length === 0 ? 'empty' : ''}`} key={night.night}>
+                      <input
+                        type="checkbox"
+                        checked={clean.length > 0 && !deselected.has(night.night)}
+                        disabled={clean.length === 0 || submitting}
+                        onChange={() => toggleNight(night.night)}
+                      />
+                      <span>{night.night}</span>
+                      <span>{night.readings.length}</span>
+                      <span>{clean.length}</span>
+                      <span>{night.readings.filter(r => r.flags.includes('twilight')).length}</span>
+                      <span>{night.readings.filter(r => r.flags.includes('moonlit')).length}</span>
+                      <span>{median ? median.skyQuality.toFixed(2) : '-'}</span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <p className="subtitle">
+                {language === 'en'
+                  ? `${remainingReadings.length} observation(s) from ${selected.length} night(s) will be encrypted and submitted in ${Math.ceil(remainingReadings.length / OBSERVATIONS_PER_INPUT)} transaction(s)`
+                  : `将加密来自${selected.length}个夜晚的${remainingReadings.length}条观测，并分${Math.ceil(remainingReadings.length / OBSERVATIONS_PER_INPUT)}笔交易提交`
+                }
+                {remainingReadings.length < selectedReadings.length && (language === 'en'
+                  ? ` · ${selectedReadings.length - remainingReadings.length} already submitted`
+                  : ` · ${selectedReadings.length - remainingReadings.length}条已提交`
+                )}
+              </p>
+            </>
+          )}
+
+          {progress && (
+            <div className={progress.error ? 'operation-error' : 'subtitle'}>
+              {language === 'en' ? 'Submitted' : '已提交'} {progress.done}/{progress.total}
+              {progress.error && ` · ${progress.error}`}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          {submitting ? (
+            <button onClick={() => { cancelRef.current = true; }} className="cancel-btn">
+              {language === 'en' ? 'Stop after current batch' : '当前批次完成后停止'}
+            </button>
+          ) : (
+            <button onClick={onClose} className="cancel-btn">
+              {language === 'en' ? 'Close' : '关闭'}
+            </button>
+          )}
+          <button
+            onClick={submit}
+            disabled={submitting || remainingReadings.length === 0}
+            className="submit-btn primary-btn"
+          >
+            {submitting
+              ? (language === 'en' ? 'Encrypting with FHE...' : '使用FHE加密中...')
+              : (language === 'en' ? 'Submit Securely' : '安全提交')
+            }
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SqmImport;
@@ -1,9 +1,14 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
+import lightPollutionAbiJson from "./abi/LightPollution_FHE.json";
 import configJson from "./config.json";
+import { historyStartBlock, scanLogPages } from "./eventLoader";
+import type { EncryptedObservationBatch, EncryptedObservationInput } from "./fhe";
 
-export const ABI = (abiJson as any).abi || abiJson;
+// Both files are Hardhat artifacts; only their ABI is used
+export const ABI: ethers.InterfaceAbi = abiJson.abi;
+export const LIGHT_POLLUTION_ABI: ethers.InterfaceAbi = lightPollutionAbiJson.abi;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -67,11 +72,11 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
+  if (!window.ethereum) {
     throw new Error("No injected wallet");
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const provider = new ethers.BrowserProvider(window.ethereum);
     const signer = await provider.getSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
@@ -81,6 +86,936 @@ export async function getContractWithSigner() {
   }
 }
 
+/** Publicly decrypted values, still in their fixed-point encoding. */
+export interface DecryptedObservation {
+  brightness: number;
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  bortle: number;
+  nelm: number;
+  cloudCover: number;
+  isRevealed: boolean;
+}
+
+/** The oracle round trip of an observation reveal, read from its events. */
+export interface DecryptionStatus {
+  // Requests from the block of the given request transaction on
+  requestIds: string[];
+  requestedAt: number;   // ms, block time of the given request
+  fulfilledTxHash?: string;
+}
+
+export interface ObservationHandles {
+  brightness: string;
+  latitude: string;
+  longitude: string;
+  timestamp: string;
+  bortle: string;
+  nelm: string;
+  cloudCover: string;
+  submitter: string;
+}
+
+export interface RegionSummary {
+  regionCode: string;
+  observationCount: number;
+}
+
+export interface RegionAverage {
+  average: number;
+  sampleCount: number;
+  requestedSampleCount: number;
+  revealedAt: number;
+  isRevealed: boolean;
+  isPending: boolean;
+}
+
+// Periods are UTC calendar years of the public submission time
+export interface RegionPeriod {
+  year: number;
+  observationCount: number;
+}
+
+export interface RegionTrend {
+  fromYear: number;
+  toYear: number;
+  darker: boolean;          // average sky quality rose between the two years
+  change: number;           // absolute change of the averages, mag/arcsec² x 100
+  fromSamples: number;
+  toSamples: number;
+  requestedFromSamples: number;
+  requestedToSamples: number;
+  revealedAt: number;
+  isRevealed: boolean;
+  isPending: boolean;
+}
+
+export interface ThresholdAlert {
+  breached: boolean;        // regional average fell below the owner's encrypted threshold
+  sampleCount: number;
+  requestedSampleCount: number;
+  evaluatedAt: number;
+  isEvaluated: boolean;
+  isPending: boolean;
+}
+
+export interface Ranking {
+  rankingKey: string;
+  regionCodes: string[];    // ascending by region id
+  ranks: number[];          // 1 = darkest; equal averages share a rank
+  sampleCounts: number[];
+  requestedSampleTotal: number;
+  revealedAt: number;
+  isRevealed: boolean;
+  isPending: boolean;
+}
+
+export type ModerationStatus = "pending" | "verified" | "rejected";
+
+// Mirrors the ModerationStatus enum order in LightPollution_FHE.sol
+const MODERATION_STATUSES: ModerationStatus[] = ["pending", "verified", "rejected"];
+
+export interface Moderation {
+  status: ModerationStatus;
+  approvals: number;
+  decidedAt: number;
+  rejectedBy: string;
+  rejectionReason: string;
+}
+
+export interface VerifierRoles {
+  admin: string;
+  isAdmin: boolean;
+  isVerifier: boolean;
+  verifierCount: number;
+  quorum: number;
+}
+
+interface EventMeta {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface ObservationSubmittedEvent extends EventMeta {
+  name: "ObservationSubmitted";
+  id: number;
+  submissionTime: number;
+}
+
+export interface DecryptionRequestedEvent extends EventMeta {
+  name: "DecryptionRequested";
+  id: number;
+  requestId: string;
+}
+
+export interface ObservationDecryptedEvent extends EventMeta {
+  name: "ObservationDecrypted";
+  id: number;
+}
+
+export interface PollutionMapUpdatedEvent extends EventMeta {
+  name: "PollutionMapUpdated";
+  regionId: bigint;
+}
+
+export interface RegionDecryptionRequestedEvent extends EventMeta {
+  name: "RegionDecryptionRequested";
+  regionId: bigint;
+  requestId: string;
+}
+
+export interface RegionAverageDecryptedEvent extends EventMeta {
+  name: "RegionAverageDecrypted";
+  regionId: bigint;
+  average: number;
+  sampleCount: number;
+}
+
+export interface TrendDecryptionRequestedEvent extends EventMeta {
+  name: "TrendDecryptionRequested";
+  regionId: bigint;
+  fromYear: number;
+  toYear: number;
+  requestId: string;
+}
+
+export interface RegionTrendDecryptedEvent extends EventMeta {
+  name: "RegionTrendDecrypted";
+  regionId: bigint;
+  fromYear: number;
+  toYear: number;
+  darker: boolean;
+  change: number;
+}
+
+export interface RegionOwnerSetEvent extends EventMeta {
+  name: "RegionOwnerSet";
+  regionId: bigint;
+  regionCode: string;
+  owner: string;
+}
+
+export interface ThresholdSetEvent extends EventMeta {
+  name: "ThresholdSet";
+  regionId: bigint;
+  regionCode: string;
+}
+
+export interface ThresholdEvaluationRequestedEvent extends EventMeta {
+  name: "ThresholdEvaluationRequested";
+  regionId: bigint;
+  requestId: string;
+}
+
+export interface ThresholdEvaluatedEvent extends EventMeta {
+  name: "ThresholdEvaluated";
+  regionId: bigint;
+  regionCode: string;
+  breached: boolean;
+  sampleCount: number;
+}
+
+export interface RankingRequestedEvent extends EventMeta {
+  name: "RankingRequested";
+  rankingKey: string;
+  regionCodes: string[];
+  requestId: string;
+}
+
+export interface RankingDecryptedEvent extends EventMeta {
+  name: "RankingDecrypted";
+  rankingKey: string;
+  ranks: bigint;            // byte i is the rank of region i of the matching RankingRequested set
+}
+
+export interface VerifierAddedEvent extends EventMeta {
+  name: "VerifierAdded";
+  verifier: string;
+}
+
+export interface VerifierRemovedEvent extends EventMeta {
+  name: "VerifierRemoved";
+  verifier: string;
+}
+
+export interface VerificationQuorumUpdatedEvent extends EventMeta {
+  name: "VerificationQuorumUpdated";
+  quorum: number;
+}
+
+export interface ObservationApprovedEvent extends EventMeta {
+  name: "ObservationApproved";
+  id: number;
+  verifier: string;
+  approvals: number;
+}
+
+export interface ObservationVerifiedEvent extends EventMeta {
+  name: "ObservationVerified";
+  id: number;
+}
+
+export interface ObservationRejectedEvent extends EventMeta {
+  name: "ObservationRejected";
+  id: number;
+  verifier: string;
+  reason: string;
+}
+
+export type LightPollutionEvent =
+  | ObservationSubmittedEvent
+  | DecryptionRequestedEvent
+  | ObservationDecryptedEvent
+  | PollutionMapUpdatedEvent
+  | RegionDecryptionRequestedEvent
+  | RegionAverageDecryptedEvent
+  | TrendDecryptionRequestedEvent
+  | RegionTrendDecryptedEvent
+  | RegionOwnerSetEvent
+  | ThresholdSetEvent
+  | ThresholdEvaluationRequestedEvent
+  | ThresholdEvaluatedEvent
+  | RankingRequestedEvent
+  | RankingDecryptedEvent
+  | VerifierAddedEvent
+  | VerifierRemovedEvent
+  | VerificationQuorumUpdatedEvent
+  | ObservationApprovedEvent
+  | ObservationVerifiedEvent
+  | ObservationRejectedEvent;
+
+export interface LightPollutionClient {
+  address: string;
+  contract: ethers.Contract;
+  submitObservation(
+    input: EncryptedObservationInput,
+    regionCode: string,
+    qualityFlags: number
+  ): Promise<{ observationId: number; receipt: ethers.TransactionReceipt }>;
+  submitObservationBatch(
+    batch: EncryptedObservationBatch,
+    entries: { regionCode: string; qualityFlags: number }[]
+  ): Promise<{ observationIds: number[]; receipt: ethers.TransactionReceipt }>;
+  requestObservationDecryption(
+    observationId: number
+  ): Promise<{ requestId: string; receipt: ethers.TransactionReceipt }>;
+  getDecryptedObservation(observationId: number): Promise<DecryptedObservation>;
+  getDecryptionStatus(observationId: number, requestTxHash: string): Promise<DecryptionStatus>;
+  getObservationHandles(observationId: number): Promise<ObservationHandles>;
+  calculateRegionalBrightness(regionCode: string): Promise<ethers.TransactionReceipt>;
+  getRegions(): Promise<RegionSummary[]>;
+  getRegionAverage(regionCode: string): Promise<RegionAverage>;
+  requestRegionAverageDecryption(
+    regionCode: string
+  ): Promise<{ requestId: string; receipt: ethers.TransactionReceipt }>;
+  getRegionPeriods(regionCode: string): Promise<RegionPeriod[]>;
+  getRegionTrend(regionCode: string, fromYear: number, toYear: number): Promise<RegionTrend>;
+  requestTrendDecryption(
+    regionCode: string,
+    fromYear: number,
+    toYear: number
+  ): Promise<{ requestId: string; receipt: ethers.TransactionReceipt }>;
+  getOwnedRegions(account: string): Promise<string[]>;
+  setRegionOwner(regionCode: string, owner: string): Promise<ethers.TransactionReceipt>;
+  setRegionThreshold(
+    regionCode: string,
+    threshold: { handle: string; inputProof: string }
+  ): Promise<ethers.TransactionReceipt>;
+  getThresholdAlert(regionCode: string): Promise<ThresholdAlert>;
+  getThresholdEvaluations(
+    regionCodes: string[],
+    fromBlock?: number
+  ): Promise<{ events: ThresholdEvaluatedEvent[]; scannedTo: number }>;
+  getRanking(regionCodes: string[]): Promise<Ranking>;
+  getRankings(): Promise<Ranking[]>;
+  getRevealedSampleCounts(regionCodes: string[]): Promise<Record<string, number>>;
+  requestRankingDecryption(
+    regionCodes: string[]
+  ): Promise<{ requestId: string; receipt: ethers.TransactionReceipt }>;
+  getVerifierRoles(account: string): Promise<VerifierRoles>;
+  getVerifiers(): Promise<string[]>;
+  addVerifier(verifier: string): Promise<ethers.TransactionReceipt>;
+  removeVerifier(verifier: string): Promise<ethers.TransactionReceipt>;
+  setVerificationQuorum(quorum: number): Promise<ethers.TransactionReceipt>;
+  getModeration(observationId: number): Promise<Moderation>;
+  getModerationStatuses(observationIds: number[]): Promise<ModerationStatus[]>;
+  getSubmitters(observationIds: number[]): Promise<string[]>;
+  isVerifier(account: string): Promise<boolean>;
+  hasApproved(observationId: number, verifier: string): Promise<boolean>;
+  approveObservation(observationId: number): Promise<ethers.TransactionReceipt>;
+  rejectObservation(observationId: number, reason: string): Promise<ethers.TransactionReceipt>;
+  getObservationHistory(observationId: number): Promise<ObservationHistoryEvent[]>;
+  decodeEvents(logs: readonly ethers.Log[]): LightPollutionEvent[];
+  queryEvents(fromBlock: number, toBlock?: number | "latest"): Promise<LightPollutionEvent[]>;
+}
+
+export type ObservationHistoryEvent =
+  | ObservationSubmittedEvent
+  | ObservationApprovedEvent
+  | ObservationVerifiedEvent
+  | ObservationRejectedEvent;
+
+// Lifecycle events whose first indexed argument is the observation id
+const OBSERVATION_HISTORY_EVENTS = [
+  "ObservationSubmitted",
+  "ObservationApproved",
+  "ObservationVerified",
+  "ObservationRejected"
+];
+
+const LIGHT_POLLUTION_EVENTS = [
+  "ObservationSubmitted",
+  "DecryptionRequested",
+  "ObservationDecrypted",
+  "PollutionMapUpdated",
+  "RegionDecryptionRequested",
+  "RegionAverageDecrypted",
+  "TrendDecryptionRequested",
+  "RegionTrendDecrypted",
+  "RegionOwnerSet",
+  "ThresholdSet",
+  "ThresholdEvaluationRequested",
+  "ThresholdEvaluated",
+  "RankingRequested",
+  "RankingDecrypted",
+  "VerifierAdded",
+  "VerifierRemoved",
+  "VerificationQuorumUpdated",
+  "ObservationApproved",
+  "ObservationVerified",
+  "ObservationRejected"
+];
+
+function decodeLightPollutionEvent(iface: ethers.Interface, log: ethers.Log): LightPollutionEvent | null {
+  let parsed: ethers.LogDescription | null;
+  try {
+    parsed = iface.parseLog(log);
+  } catch (e) {
+    return null;
+  }
+  if (!parsed) return null;
+  
+  const meta = { blockNumber: log.blockNumber, logIndex: log.index, transactionHash: log.transactionHash };
+  switch (parsed.name) {
+    case "ObservationSubmitted":
+      return { name: parsed.name, id: Number(parsed.args.id), submissionTime: Number(parsed.args.submissionTime), ...meta };
+    case "DecryptionRequested":
+      return { name: parsed.name, id: Number(parsed.args.id), requestId: parsed.args.requestId.toString(), ...meta };
+    case "ObservationDecrypted":
+      return { name: parsed.name, id: Number(parsed.args.id), ...meta };
+    case "PollutionMapUpdated":
+      return { name: parsed.name, regionId: parsed.args.regionId as bigint, ...meta };
+    case "RegionDecryptionRequested":
+      return { name: parsed.name, regionId: parsed.args.regionId as bigint, requestId: parsed.args.requestId.toString(), ...meta };
+    case "RegionAverageDecrypted":
+      return {
+        name: parsed.name,
+        regionId: parsed.args.regionId as bigint,
+        average: Number(parsed.args.average),
+        sampleCount: Number(parsed.args.sampleCount),
+        ...meta
+      };
+    case "TrendDecryptionRequested":
+      return {
+        name: parsed.name,
+        regionId: parsed.args.regionId as bigint,
+        fromYear: Number(parsed.args.fromYear),
+        toYear: Number(parsed.args.toYear),
+        requestId: parsed.args.requestId.toString(),
+        ...meta
+      };
+    case "RegionTrendDecrypted":
+      return {
+        name: parsed.name,
+        regionId: parsed.args.regionId as bigint,
+        fromYear: Number(parsed.args.fromYear),
+        toYear: Number(parsed.args.toYear),
+        darker: parsed.args.darker,
+        change: Number(parsed.args.change),
+        ...meta
+      };
+    case "RegionOwnerSet":
+      return {
+        name: parsed.name,
+        regionId: parsed.args.regionId as bigint,
+        regionCode: parsed.args.regionCode,
+        owner: parsed.args.owner,
+        ...meta
+      };
+    case "ThresholdSet":
+      return { name: parsed.name, regionId: parsed.args.regionId as bigint, regionCode: parsed.args.regionCode, ...meta };
+    case "ThresholdEvaluationRequested":
+      return { name: parsed.name, regionId: parsed.args.regionId as bigint, requestId: parsed.args.requestId.toString(), ...meta };
+    case "ThresholdEvaluated":
+      return {
+        name: parsed.name,
+        regionId: parsed.args.regionId as bigint,
+        regionCode: parsed.args.regionCode,
+        breached: parsed.args.breached,
+        sampleCount: Number(parsed.args.sampleCount),
+        ...meta
+      };
+    case "RankingRequested":
+      return {
+        name: parsed.name,
+        rankingKey: parsed.args.rankingKey,
+        regionCodes: Array.from(parsed.args.regionCodes as string[]),
+        requestId: parsed.args.requestId.toString(),
+        ...meta
+      };
+    case "RankingDecrypted":
+      return {
+        name: parsed.name,
+        rankingKey: parsed.args.rankingKey,
+        ranks: parsed.args.ranks as bigint,
+        ...meta
+      };
+    case "VerifierAdded":
+    case "VerifierRemoved":
+      return { name: parsed.name, verifier: parsed.args.verifier, ...meta };
+    case "VerificationQuorumUpdated":
+      return { name: parsed.name, quorum: Number(parsed.args.quorum), ...meta };
+    case "ObservationApproved":
+      return {
+        name: parsed.name,
+        id: Number(parsed.args.id),
+        verifier: parsed.args.verifier,
+        approvals: Number(parsed.args.approvals),
+        ...meta
+      };
+    case "ObservationVerified":
+      return { name: parsed.name, id: Number(parsed.args.id), ...meta };
+    case "ObservationRejected":
+      return { name: parsed.name, id: Number(parsed.args.id), verifier: parsed.args.verifier, reason: parsed.args.reason, ...meta };
+    default:
+      return null;
+  }
+}
+
+async function waitForReceipt(tx: ethers.ContractTransactionResponse): Promise<ethers.TransactionReceipt> {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was dropped`);
+  }
+  return receipt;
+}
+
+export function createLightPollutionClient(contract: ethers.Contract): LightPollutionClient {
+  const iface = contract.interface;
+  const decodeEvents = (logs: readonly ethers.Log[]) =>
+    logs
+      .map(log => decodeLightPollutionEvent(iface, log))
+      .filter((event): event is LightPollutionEvent => event !== null);
+  // Pages through [fromBlock, toBlock] for the named events; `scannedTo` is the last block covered
+  const scanEvents = async (names: string[], fromBlock: number, toBlock?: number, ...filters: string[]) => {
+    const provider = contract.runner!.provider!;
+    const scannedTo = toBlock ?? await retry(() => provider.getBlockNumber());
+    const topics = [names.map(name => iface.getEvent(name)!.topicHash), ...filters];
+    const events: LightPollutionEvent[] = [];
+    await scanLogPages(provider, config.lightPollutionAddress, topics, fromBlock, scannedTo, logs => {
+      events.push(...decodeEvents(logs));
+    });
+    return { events, scannedTo };
+  };
+  const queryEvents = async (fromBlock: number, toBlock: number | "latest" = "latest") =>
+    (await scanEvents(LIGHT_POLLUTION_EVENTS, fromBlock, toBlock === "latest" ? undefined : toBlock)).events;
+  const readRanking = async (regionCodes: string[]): Promise<Ranking> => {
+    const sorted = sortByRegionId(regionCodes);
+    const [ranks, sampleCounts, requestedSampleTotal, revealedAt, isRevealed, isPending] = await retry(() =>
+      contract.getRanking(sorted)
+    );
+    return {
+      rankingKey: rankingKey(sorted),
+      regionCodes: sorted,
+      ranks: Array.from(ranks as bigint[], Number),
+      sampleCounts: Array.from(sampleCounts as bigint[], Number),
+      requestedSampleTotal: Number(requestedSampleTotal),
+      revealedAt: Number(revealedAt),
+      isRevealed,
+      isPending
+    };
+  };
+  
+  return {
+    address: config.lightPollutionAddress,
+    contract,
+    
+    async submitObservation(input, regionCode, qualityFlags) {
+      const receipt = await waitForReceipt(
+        await contract.submitEncryptedObservation(...input.handles, input.inputProof, regionCode, qualityFlags)
+      );
+      const submitted = decodeEvents(receipt.logs).find(
+        (event): event is ObservationSubmittedEvent => event.name === "ObservationSubmitted"
+      );
+      if (!submitted) {
+        throw new Error("ObservationSubmitted event not found in receipt");
+      }
+      return { observationId: submitted.id, receipt };
+    },
+    
+    async submitObservationBatch(batch, entries) {
+      if (batch.handles.length !== entries.length) {
+        throw new Error("Each encrypted observation needs a region and quality flags");
+      }
+      const observations = batch.handles.map((handles, i) => {
+        const [brightness, latitude, longitude, timestamp, bortle, nelm, cloudCover] = handles;
+        return {
+          brightness, latitude, longitude, timestamp, bortle, nelm, cloudCover,
+          regionCode: entries[i].regionCode,
+          qualityFlags: entries[i].qualityFlags
+        };
+      });
+      const receipt = await waitForReceipt(
+        await contract.submitEncryptedObservationBatch(observations, batch.inputProof)
+      );
+      // Ids are assigned in batch order, one ObservationSubmitted event each
+      const observationIds = decodeEvents(receipt.logs)
+        .filter((event): event is ObservationSubmittedEvent => event.name === "ObservationSubmitted")
+        .map(event => event.id);
+      if (observationIds.length !== entries.length) {
+        throw new Error("ObservationSubmitted events missing from receipt");
+      }
+      return { observationIds, receipt };
+    },
+    
+    async requestObservationDecryption(observationId) {
+      const receipt = await waitForReceipt(await contract.requestObservationDecryption(observationId));
+      const requested = decodeEvents(receipt.logs).find(
+        (event): event is DecryptionRequestedEvent => event.name === "DecryptionRequested"
+      );
+      if (!requested) {
+        throw new Error("DecryptionRequested event not found in receipt");
+      }
+      return { requestId: requested.requestId, receipt };
+    },
+    
+    async getDecryptedObservation(observationId) {
+      const [brightness, latitude, longitude, timestamp, bortle, nelm, cloudCover, isRevealed] = await retry(() =>
+        contract.getDecryptedObservation(observationId)
+      );
+      return {
+        brightness: Number(brightness),
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        timestamp: Number(timestamp),
+        bortle: Number(bortle),
+        nelm: Number(nelm),
+        cloudCover: Number(cloudCover),
+        isRevealed
+      };
+    },
+    
+    async getDecryptionStatus(observationId, requestTxHash) {
+      // A reveal is answered after its request, so the scan starts at the request's own block
+      const provider = contract.runner!.provider!;
+      const receipt = await retry(() => provider.getTransactionReceipt(requestTxHash));
+      if (!receipt) {
+        throw new Error(`Decryption request ${requestTxHash} not found`);
+      }
+      const block = await retry(() => provider.getBlock(receipt.blockNumber));
+      if (!block) {
+        throw new Error(`Block ${receipt.blockNumber} not found`);
+      }
+      const idTopic = ethers.zeroPadValue(ethers.toBeHex(observationId), 32);
+      const { events } = await scanEvents(
+        ["DecryptionRequested", "ObservationDecrypted"],
+        receipt.blockNumber,
+        undefined,
+        idTopic
+      );
+      return {
+        requestIds: events
+          .filter((event): event is DecryptionRequestedEvent => event.name === "DecryptionRequested")
+          .map(event => event.requestId),
+        requestedAt: block.timestamp * 1000,
+        fulfilledTxHash: events.find(event => event.name === "ObservationDecrypted")?.transactionHash
+      };
+    },
+    
+    async getObservationHandles(observationId) {
+      const [brightness, latitude, longitude, timestamp, bortle, nelm, cloudCover, submitter] = await retry(() =>
+        contract.getEncryptedObservation(observationId)
+      );
+      return { brightness, latitude, longitude, timestamp, bortle, nelm, cloudCover, submitter };
+    },
+    
+    async calculateRegionalBrightness(regionCode) {
+      return waitForReceipt(await contract.calculateRegionalBrightness(regionCode));
+    },
+    
+    async getRegions() {
+      const [regionCodes, counts] = await retry(() => contract.getRegions());
+      return (regionCodes as string[]).map((regionCode, i) => ({
+        regionCode,
+        observationCount: Number(counts[i])
+      }));
+    },
+    
+    async getRegionAverage(regionCode) {
+      const [average, sampleCount, requestedSampleCount, revealedAt, isRevealed, isPending] = await retry(() =>
+        contract.getRegionAverage(regionCode)
+      );
+      return {
+        average: Number(average),
+        sampleCount: Number(sampleCount),
+        requestedSampleCount: Number(requestedSampleCount),
+        revealedAt: Number(revealedAt),
+        isRevealed,
+        isPending
+      };
+    },
+    
+    async requestRegionAverageDecryption(regionCode) {
+      const receipt = await waitForReceipt(await contract.requestRegionAverageDecryption(regionCode));
+      const requested = decodeEvents(receipt.logs).find(
+        (event): event is RegionDecryptionRequestedEvent => event.name === "RegionDecryptionRequested"
+      );
+      if (!requested) {
+        throw new Error("RegionDecryptionRequested event not found in receipt");
+      }
+      return { requestId: requested.requestId, receipt };
+    },
+    
+    async getRegionPeriods(regionCode) {
+      const [years, counts] = await retry(() => contract.getRegionPeriods(regionCode));
+      return (years as bigint[])
+        .map((year, i) => ({ year: Number(year), observationCount: Number(counts[i]) }))
+        .sort((a, b) => a.year - b.year);
+    },
+    
+    async getRegionTrend(regionCode, fromYear, toYear) {
+      const [
+        darker, change, fromSamples, toSamples, requestedFromSamples, requestedToSamples, revealedAt, isRevealed, isPending
+      ] = await retry(() => contract.getRegionTrend(regionCode, fromYear, toYear));
+      return {
+        fromYear,
+        toYear,
+        darker,
+        change: Number(change),
+        fromSamples: Number(fromSamples),
+        toSamples: Number(toSamples),
+        requestedFromSamples: Number(requestedFromSamples),
+        requestedToSamples: Number(requestedToSamples),
+        revealedAt: Number(revealedAt),
+        isRevealed,
+        isPending
+      };
+    },
+    
+    async requestTrendDecryption(regionCode, fromYear, toYear) {
+      const receipt = await waitForReceipt(await contract.requestTrendDecryption(regionCode, fromYear, toYear));
+      const requested = decodeEvents(receipt.logs).find(
+        (event): event is TrendDecryptionRequestedEvent => event.name === "TrendDecryptionRequested"
+      );
+      if (!requested) {
+        throw new Error("TrendDecryptionRequested event not found in receipt");
+      }
+      return { requestId: requested.requestId, receipt };
+    },
+    
+    async getOwnedRegions(account) {
+      // Ownership is a mapping, so replay assignments from the logs
+      const { events } = await scanEvents(["RegionOwnerSet"], historyStartBlock());
+      const owners = new Map<string, string>();
+      for (const event of events) {
+        if (event.name === "RegionOwnerSet") owners.set(event.regionCode, normAddr(event.owner));
+      }
+      return Array.from(owners.entries())
+        .filter(([, owner]) => owner === normAddr(account))
+        .map(([regionCode]) => regionCode);
+    },
+    
+    async setRegionOwner(regionCode, owner) {
+      return waitForReceipt(await contract.setRegionOwner(regionCode, owner));
+    },
+    
+    async setRegionThreshold(regionCode, threshold) {
+      return waitForReceipt(await contract.setRegionThreshold(regionCode, threshold.handle, threshold.inputProof));
+    },
+    
+    async getThresholdAlert(regionCode) {
+      const [breached, sampleCount, requestedSampleCount, evaluatedAt, isEvaluated, isPending] = await retry(() =>
+        contract.thresholdAlerts(regionCode)
+      );
+      return {
+        breached,
+        sampleCount: Number(sampleCount),
+        requestedSampleCount: Number(requestedSampleCount),
+        evaluatedAt: Number(evaluatedAt),
+        isEvaluated,
+        isPending
+      };
+    },
+    
+    async getThresholdEvaluations(regionCodes, fromBlock = historyStartBlock()) {
+      const wanted = new Set(regionCodes);
+      const { events, scannedTo } = await scanEvents(["ThresholdEvaluated"], fromBlock);
+      return {
+        events: events.filter(
+          (event): event is ThresholdEvaluatedEvent => event.name === "ThresholdEvaluated" && wanted.has(event.regionCode)
+        ),
+        scannedTo
+      };
+    },
+    
+    async getRanking(regionCodes) {
+      return readRanking(regionCodes);
+    },
+    
+    async getRankings() {
+      // Every set ever requested, most recently requested first
+      const { events } = await scanEvents(["RankingRequested"], historyStartBlock());
+      const sets = new Map<string, string[]>();
+      for (const event of [...events].reverse()) {
+        if (event.name === "RankingRequested" && !sets.has(event.rankingKey)) {
+          sets.set(event.rankingKey, event.regionCodes);
+        }
+      }
+      const rankings: Ranking[] = [];
+      for (const regionCodes of sets.values()) {
+        rankings.push(await readRanking(regionCodes));
+      }
+      return rankings;
+    },
+    
+    async getRevealedSampleCounts(regionCodes) {
+      const counts: Record<string, number> = {};
+      for (const regionCode of regionCodes) {
+        counts[regionCode] = Number(await retry(() => contract.regionRevealedSamples(regionCode)));
+      }
+      return counts;
+    },
+    
+    async requestRankingDecryption(regionCodes) {
+      const receipt = await waitForReceipt(await contract.requestRankingDecryption(sortByRegionId(regionCodes)));
+      const requested = decodeEvents(receipt.logs).find(
+        (event): event is RankingRequestedEvent => event.name === "RankingRequested"
+      );
+      if (!requested) {
+        throw new Error("RankingRequested event not found in receipt");
+      }
+      return { requestId: requested.requestId, receipt };
+    },
+    
+    async getVerifierRoles(account) {
+      const [admin, isVerifier, verifierCount, quorum] = await Promise.all([
+        retry(() => contract.admin()),
+        account ? retry(() => contract.isVerifier(account)) : Promise.resolve(false),
+        retry(() => contract.verifierCount()),
+        retry(() => contract.verificationQuorum())
+      ]);
+      return {
+        admin,
+        isAdmin: !!account && normAddr(admin) === normAddr(account),
+        isVerifier,
+        verifierCount: Number(verifierCount),
+        quorum: Number(quorum)
+      };
+    },
+    
+    async getVerifiers() {
+      // The allowlist is a mapping, so replay membership changes from the logs
+      const { events } = await scanEvents(["VerifierAdded", "VerifierRemoved"], historyStartBlock());
+      const verifiers = new Map<string, string>();
+      for (const event of events) {
+        if (event.name === "VerifierAdded") verifiers.set(normAddr(event.verifier), event.verifier);
+        if (event.name === "VerifierRemoved") verifiers.delete(normAddr(event.verifier));
+      }
+      return Array.from(verifiers.values());
+    },
+    
+    async addVerifier(verifier) {
+      return waitForReceipt(await contract.addVerifier(verifier));
+    },
+    
+    async removeVerifier(verifier) {
+      return waitForReceipt(await contract.removeVerifier(verifier));
+    },
+    
+    async setVerificationQuorum(quorum) {
+      return waitForReceipt(await contract.setVerificationQuorum(quorum));
+    },
+    
+    async getModeration(observationId) {
+      const [status, approvals, decidedAt, rejectedBy, rejectionReason] = await retry(() =>
+        contract.getModeration(observationId)
+      );
+      return {
+        status: MODERATION_STATUSES[Number(status)],
+        approvals: Number(approvals),
+        decidedAt: Number(decidedAt),
+        rejectedBy,
+        rejectionReason
+      };
+    },
+    
+    async getModerationStatuses(observationIds) {
+      if (observationIds.length === 0) return [];
+      const statuses = await retry(() => contract.getModerationStatuses(observationIds));
+      return (statuses as bigint[]).map(status => MODERATION_STATUSES[Number(status)]);
+    },
+    
+    async getSubmitters(observationIds) {
+      if (observationIds.length === 0) return [];
+      return Array.from(await retry(() => contract.getSubmitters(observationIds)) as string[]);
+    },
+    
+    async isVerifier(account) {
+      return retry(() => contract.isVerifier(account));
+    },
+    
+    async hasApproved(observationId, verifier) {
+      return retry(() => contract.hasApproved(observationId, verifier));
+    },
+    
+    async approveObservation(observationId) {
+      return waitForReceipt(await contract.approveObservation(observationId));
+    },
+    
+    async rejectObservation(observationId, reason) {
+      return waitForReceipt(await contract.rejectObservation(observationId, reason));
+    },
+    
+    async getObservationHistory(observationId) {
+      const idTopic = ethers.zeroPadValue(ethers.toBeHex(observationId), 32);
+      const { events } = await scanEvents(OBSERVATION_HISTORY_EVENTS, historyStartBlock(), undefined, idTopic);
+      return events.filter(
+        (event): event is ObservationHistoryEvent => OBSERVATION_HISTORY_EVENTS.includes(event.name)
+      );
+    },
+    
+    decodeEvents,
+    queryEvents
+  };
+}
+
+export async function getLightPollutionClientReadOnly(): Promise<LightPollutionClient | null> {
+  if (!config.lightPollutionAddress) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    const code = await retry(() => provider.getCode(config.lightPollutionAddress));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return createLightPollutionClient(new ethers.Contract(config.lightPollutionAddress, LIGHT_POLLUTION_ABI, provider));
+  } catch (error) {
+    console.error("Failed to create read-only LightPollution_FHE client:", error);
+    return null;
+  }
+}
+
+export async function getLightPollutionClientWithSigner(): Promise<LightPollutionClient> {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.lightPollutionAddress) {
+    throw new Error("LightPollution_FHE address missing from config.json");
+  }
+  try {
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const signer = await provider.getSigner();
+    return createLightPollutionClient(new ethers.Contract(config.lightPollutionAddress, LIGHT_POLLUTION_ABI, signer));
+  } catch (error) {
+    console.error("Failed to create LightPollution_FHE client with signer:", error);
+    throw error;
+  }
+}
+
+// Mirrors LightPollution_FHE.MIN_REGION_SAMPLES
+const MIN_NEW_SAMPLES = 3;
+
+/**
+ * Mirrors the contract's differencing guard, shared by averages, trends, threshold
+ * evaluations and rankings: a region is revealed again only at the sample count of
+ * its last reveal, or once enough new samples have arrived.
+ */
+export function canRevealAt(sampleCount: number, revealedSamples: number): boolean {
+  return sampleCount === revealedSamples || sampleCount >= revealedSamples + MIN_NEW_SAMPLES;
+}
+
+// Same as bytes32ToUint(keccak256(abi.encodePacked(regionCode))) in LightPollution_FHE
+export function regionId(regionCode: string): bigint {
+  return BigInt(ethers.id(regionCode));
+}
+
+// The contract keys rankings by their region set in ascending region id order
+export function sortByRegionId(regionCodes: string[]): string[] {
+  return [...regionCodes].sort((a, b) => {
+    const idA = regionId(a);
+    const idB = regionId(b);
+    return idA < idB ? -1 : idA > idB ? 1 : 0;
+  });
+}
+
+function rankingKey(sortedRegionCodes: string[]): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["string[]"], [sortedRegionCodes]));
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+// dataExport.test.ts
+import { describe, expect, it } from "vitest";
+import { observationFeatures, regionFeatures, serializeFeatures, toCsv, toGeoJson, toKml } from "./dataExport";
+import type { RegionAverage } from "./contract";
+
+const average = (overrides: Partial<RegionAverage> = {}): RegionAverage => ({
+  average: 2140,
+  sampleCount: 12,
+  requestedSampleCount: 12,
+  revealedAt: 1_700_000_000,
+  isRevealed: true,
+  isPending: false,
+  ...overrides
+});
+
+const regions = regionFeatures(
+  [
+    { regionCode: "gh:s", observationCount: 12 },
+    { regionCode: "Tucson, \"Old Pueblo\"", observationCount: 3 }
+  ],
+  {
+    "gh:s": average(),
+    "Tucson, \"Old Pueblo\"": average({ isRevealed: false, isPending: true })
+  }
+);
+
+const observations = observationFeatures([{
+  observationId: 7,
+  record: {
+    id: "abc",
+    version: 5,
+    observationId: 7,
+    encryptedBrightness: "0x",
+    timestamp: 1_700_000_000,
+    location: "gh:s",
+    contributor: "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+    status: "verified",
+    instrument: "SQM-L",
+    conditions: ["Haze", "Dew"],
+    qualityFlags: []
+  },
+  reading: {
+    skyQuality: 21.4,
+    cloudCover: 10,
+    latitude: 22.5,
+    longitude: 22.5,
+    timestamp: 1_700_000_000
+  }
+}]);
+
+describe("regionFeatures", () => {
+  it("includes revealed averages with their sky band", () => {
+    expect(regions[0]).toEqual({
+      name: "gh:s",
+      geometry: { type: "cell", bounds: { minLat: 0, maxLat: 45, minLon: 0, maxLon: 45 } },
+      properties: {
+        region: "gh:s",
+        sample_count: 12,
+        avg_sky_quality: 21.4,
+        avg_sample_count: 12,
+        sky_band: "Rural",
+        revealed_at: "2023-11-14T22:13:20.000Z"
+      }
+    });
+  });
+
+  it("leaves unrevealed averages and free-text locations empty", () => {
+    expect(regions[1].geometry).toBeNull();
+    expect(regions[1].properties).toMatchObject({ avg_sky_quality: null, avg_sample_count: null, sky_band: null, revealed_at: null });
+  });
+});
+
+describe("observationFeatures", () => {
+  it("places revealed readings at their cell centre", () => {
+    expect(observations[0].name).toBe("#7");
+    expect(observations[0].geometry).toEqual({ type: "point", latitude: 22.5, longitude: 22.5 });
+    expect(observations[0].properties).toMatchObject({
+      sky_quality: 21.4,
+      bortle: null,
+      nelm: null,
+      observed_at: "2023-11-14T22:13:20.000Z",
+      conditions: "Haze;Dew",
+      quality_flags: "",
+      status: "verified"
+    });
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header, quoted fields and a WKT column", () => {
+    const lines = toCsv(regions).split("\r\n");
+
+    expect(lines[0]).toBe("region,sample_count,avg_sky_quality,avg_sample_count,sky_band,revealed_at,wkt");
+    expect(lines[1]).toBe("gh:s,12,21.4,12,Rural,2023-11-14T22:13:20.000Z,\"POLYGON ((0 0, 45 0, 45 45, 0 45, 0 0))\"");
+    expect(lines[2]).toBe("\"Tucson, \"\"Old Pueblo\"\"\",3,,,,,");
+    expect(lines[3]).toBe("");
+  });
+
+  it("writes points as WKT", () => {
+    expect(toCsv(observations)).toContain("POINT (22.5 22.5)");
+  });
+
+  it("writes only the WKT header when there is nothing to export", () => {
+    expect(toCsv([])).toBe("wkt\r\n");
+  });
+});
+
+describe("toGeoJson", () => {
+  it("writes cells as closed polygons and readings as points", () => {
+    const collection = JSON.parse(toGeoJson([...regions, ...observations]));
+
+    expect(collection.type).toBe("FeatureCollection");
+    expect(collection.features.map((f: any) => f.geometry?.type ?? null)).toEqual(["Polygon", null, "Point"]);
+    const ring = collection.features[0].geometry.coordinates[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    expect(collection.features[2].geometry.coordinates).toEqual([22.5, 22.5]);
+    expect(collection.features[0].properties.avg_sky_quality).toBe(21.4);
+  });
+});
+
+describe("toKml", () => {
+  const kml = toKml([...regions, ...observations], "Regions & readings");
+
+  it("escapes text and drops features without a geometry", () => {
+    expect(kml).toContain("<name>Regions &amp; readings</name>");
+    expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+    expect(kml).not.toContain("Old Pueblo");
+  });
+
+  it("omits empty properties", () => {
+    expect(kml).toContain("<Data name=\"sky_quality\"><value>21.4</value></Data>");
+    expect(kml).not.toContain("<Data name=\"bortle\">");
+  });
+
+  it("writes lon,lat coordinates", () => {
+    expect(kml).toContain("<coordinates>0,0 45,0 45,45 0,45 0,0</coordinates>");
+    expect(kml).toContain("<Point><coordinates>22.5,22.5</coordinates></Point>");
+  });
+});
+
+describe("serializeFeatures", () => {
+  it("dispatches on the export format", () => {
+    expect(serializeFeatures(regions, "csv", "regions")).toBe(toCsv(regions));
+    expect(serializeFeatures(regions, "geojson", "regions")).toBe(toGeoJson(regions));
+    expect(serializeFeatures(regions, "kml", "regions")).toBe(toKml(regions, "regions"));
+  });
+});
@@ -0,0 +1,185 @@
+// dataExport.ts
+// Writes regional aggregates and publicly revealed observations in formats GIS tools
+// read directly: CSV with a WKT geometry column (QGIS), GeoJSON and KML (Google Earth).
+import { CellBounds, regionCellBounds } from "./geohash";
+import { ObservationPlaintext, SKY_QUALITY_BANDS, SQM_SCALE, skyQualityBand } from "./fhe";
+import type { RegionAverage, RegionSummary } from "./contract";
+import type { LightPollutionRecord } from "./recordSchema";
+
+export type ExportFormat = "csv" | "geojson" | "kml";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv" },
+  geojson: { extension: "geojson", mimeType: "application/geo+json" },
+  kml: { extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" }
+};
+
+type PropertyValue = string | number | null;
+
+export type ExportGeometry =
+  | { type: "cell"; bounds: CellBounds }
+  | { type: "point"; latitude: number; longitude: number };
+
+export interface ExportFeature {
+  name: string;
+  geometry: ExportGeometry | null;
+  properties: Record<string, PropertyValue>;
+}
+
+export interface RevealedObservation {
+  observationId: number;
+  record: LightPollutionRecord;
+  reading: ObservationPlaintext;
+}
+
+const isoTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+/** One feature per region; averages appear only once publicly revealed. */
+export function regionFeatures(regions: RegionSummary[], averages: Record<string, RegionAverage>): ExportFeature[] {
+  return regions.map(region => {
+    const bounds = regionCellBounds(region.regionCode);
+    const average = averages[region.regionCode];
+    const revealed = average?.isRevealed ? average : undefined;
+    const skyQuality = revealed ? revealed.average / SQM_SCALE : null;
+    return {
+      name: region.regionCode,
+      geometry: bounds ? { type: "cell", bounds } : null,
+      properties: {
+        region: region.regionCode,
+        sample_count: region.observationCount,
+        avg_sky_quality: skyQuality,
+        avg_sample_count: revealed ? revealed.sampleCount : null,
+        sky_band: skyQuality !== null ? SKY_QUALITY_BANDS[skyQualityBand(skyQuality)].label : null,
+        revealed_at: revealed ? isoTime(revealed.revealedAt) : null
+      }
+    };
+  });
+}
+
+/** Revealed coordinates are already the grid cell centre chosen at submission. */
+export function observationFeatures(observations: RevealedObservation[]): ExportFeature[] {
+  return observations.map(({ observationId, record, reading }) => ({
+    name: `#${observationId}`,
+    geometry: { type: "point", latitude: reading.latitude, longitude: reading.longitude },
+    properties: {
+      observation_id: observationId,
+      region: record.location,
+      sky_quality: reading.skyQuality,
+      bortle: reading.bortle ?? null,
+      nelm: reading.nelm ?? null,
+      cloud_cover: reading.cloudCover,
+      observed_at: isoTime(reading.timestamp),
+      instrument: record.instrument ?? null,
+      conditions: record.conditions.join(";"),
+      quality_flags: record.qualityFlags.join(";"),
+      status: record.status,
+      contributor: record.contributor
+    }
+  }));
+}
+
+// GeoJSON and KML both want closed [lon, lat] rings, counter-clockwise for outer boundaries
+function cellRing(bounds: CellBounds): number[][] {
+  return [
+    [bounds.minLon, bounds.minLat],
+    [bounds.maxLon, bounds.minLat],
+    [bounds.maxLon, bounds.maxLat],
+    [bounds.minLon, bounds.maxLat],
+    [bounds.minLon, bounds.minLat]
+  ];
+}
+
+function toWkt(geometry: ExportGeometry | null): string {
+  if (!geometry) return "";
+  if (geometry.type === "point") return `POINT (${geometry.longitude} ${geometry.latitude})`;
+  return `POLYGON ((${cellRing(geometry.bounds).map(([lon, lat]) => `${lon} ${lat}`).join(", ")}))`;
+}
+
+function csvField(value: PropertyValue): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(features: ExportFeature[]): string {
+  const columns = features.length > 0 ? Object.keys(features[0].properties) : [];
+  const lines = [[...columns, "wkt"].join(",")];
+  for (const feature of features) {
+    lines.push([...columns.map(c => csvField(feature.properties[c])), csvField(toWkt(feature.geometry))].join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toGeoJson(features: ExportFeature[]): string {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: features.map(feature => ({
+      type: "Feature",
+      geometry: !feature.geometry
+        ? null
+        : feature.geometry.type === "point"
+          ? { type: "Point", coordinates: [feature.geometry.longitude, feature.geometry.latitude] }
+          : { type: "Polygon", coordinates: [cellRing(feature.geometry.bounds)] },
+      properties: feature.properties
+    }))
+  }, null, 2);
+}
+
+function xmlEscape(text: string): string {
+  return text.replace(/[<>&'"]/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" }[c]!));
+}
+
+function kmlGeometry(geometry: ExportGeometry): string {
+  if (geometry.type === "point") {
+    return `<Point><coordinates>${geometry.longitude},${geometry.latitude}</coordinates></Point>`;
+  }
+  const coordinates = cellRing(geometry.bounds).map(([lon, lat]) => `${lon},${lat}`).join(" ");
+  return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinates}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+}
+
+/** KML has no null geometry, so features without a grid cell are left out. */
+export function toKml(features: ExportFeature[], title: string): string {
+  const placemarks = features
+    .filter(feature => feature.geometry)
+    .map(feature => {
+      const data = Object.entries(feature.properties)
+        .filter(([, value]) => value !== null)
+        .map(([key, value]) => `<Data name="${xmlEscape(key)}"><value>${xmlEscape(String(value))}</value></Data>`)
+        .join("");
+      return `    <Placemark><name>${xmlEscape(feature.name)}</name><ExtendedData>${data}</ExtendedData>${kmlGeometry(feature.geometry!)}</Placemark>`;
+    });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${xmlEscape(title)}</name>`,
+    ...placemarks,
+    `  </Document>`,
+    `</kml>`,
+    ""
+  ].join("\n");
+}
+
+export function serializeFeatures(features: ExportFeature[], format: ExportFormat, title: string): string {
+  switch (format) {
+    case "csv": return toCsv(features);
+    case "geojson": return toGeoJson(features);
+    case "kml": return toKml(features, title);
+  }
+}
+
+/** Saves text as a dated download, e.g. light-pollution-regions-2024-05-01.csv. */
+export function downloadFile(content: string, baseName: string, extension: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${baseName}-${new Date().toISOString().substring(0, 10)}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadExport(features: ExportFeature[], format: ExportFormat, baseName: string) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  downloadFile(serializeFeatures(features, format, baseName), baseName, extension, mimeType);
+}
@@ -0,0 +1,56 @@
+// decryptionTracker.test.ts
+import { describe, expect, it } from "vitest";
+import { applyDecryptionStatus, DECRYPTION_TIMEOUT_MS, TrackedDecryptionRequest } from "./decryptionTracker";
+
+const REQUESTED_AT = 1_700_000_000_000;
+
+const tracked = (overrides: Partial<TrackedDecryptionRequest> = {}): TrackedDecryptionRequest => ({
+  observationId: 7,
+  requestIds: ["11"],
+  txHash: `0x${"ab".repeat(32)}`,
+  // Local clock at submission; the block time replaces it
+  requestedAt: REQUESTED_AT + 5_000,
+  state: "pending",
+  ...overrides
+});
+
+describe("applyDecryptionStatus", () => {
+  it("stays pending until the oracle answers", () => {
+    const next = applyDecryptionStatus(tracked(), { requestIds: ["11"], requestedAt: REQUESTED_AT }, REQUESTED_AT + 60_000);
+
+    expect(next.state).toBe("pending");
+    expect(next.requestedAt).toBe(REQUESTED_AT);
+  });
+
+  it("is fulfilled once the observation is decrypted", () => {
+    const next = applyDecryptionStatus(
+      tracked(),
+      { requestIds: ["11"], requestedAt: REQUESTED_AT, fulfilledTxHash: `0x${"cd".repeat(32)}` },
+      REQUESTED_AT + DECRYPTION_TIMEOUT_MS * 2
+    );
+
+    expect(next.state).toBe("fulfilled");
+    expect(next.error).toBeUndefined();
+  });
+
+  it("fails a request the oracle has not answered in time, measured from its block", () => {
+    const next = applyDecryptionStatus(
+      tracked(),
+      { requestIds: ["11"], requestedAt: REQUESTED_AT },
+      REQUESTED_AT + DECRYPTION_TIMEOUT_MS + 1
+    );
+
+    expect(next.state).toBe("failed");
+    expect(next.error).toBe("Timed out waiting for the decryption oracle");
+  });
+
+  it("keeps every request id seen for the observation", () => {
+    const next = applyDecryptionStatus(
+      tracked({ requestIds: ["11", "12"] }),
+      { requestIds: ["12", "13"], requestedAt: REQUESTED_AT },
+      REQUESTED_AT
+    );
+
+    expect(next.requestIds).toEqual(["11", "12", "13"]);
+  });
+});
@@ -0,0 +1,138 @@
+// decryptionTracker.ts
+import { useCallback, useEffect, useState } from "react";
+import { DecryptionStatus, getLightPollutionClientReadOnly } from "./contract";
+
+// Only remembers which reveals this browser asked for; their state is read back from the chain
+const STORAGE_KEY = "light_pollution_decryption_requests";
+
+// The oracle normally answers within a few blocks; past this we offer a retry
+export const DECRYPTION_TIMEOUT_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+
+export type DecryptionRequestState = "pending" | "fulfilled" | "failed";
+
+export interface TrackedDecryptionRequest {
+  observationId: number;
+  requestIds: string[];
+  txHash: string;
+  requestedAt: number;
+  state: DecryptionRequestState;
+  error?: string;
+}
+
+export type TrackedDecryptionRequests = Record<number, TrackedDecryptionRequest>;
+
+export function loadTrackedRequests(): TrackedDecryptionRequests {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error loading decryption requests:", e);
+    return {};
+  }
+}
+
+function saveTrackedRequests(requests: TrackedDecryptionRequests) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(requests));
+  } catch (e) {
+    console.error("Error saving decryption requests:", e);
+  }
+}
+
+export function isStale(request: TrackedDecryptionRequest, now: number = Date.now()) {
+  return request.state === "pending" && now - request.requestedAt > DECRYPTION_TIMEOUT_MS;
+}
+
+/** Folds a request's on-chain events into its tracked state. */
+export function applyDecryptionStatus(
+  request: TrackedDecryptionRequest,
+  status: DecryptionStatus,
+  now: number = Date.now()
+): TrackedDecryptionRequest {
+  const requestIds = Array.from(new Set([...request.requestIds, ...status.requestIds]));
+  if (status.fulfilledTxHash) {
+    return { ...request, requestIds, state: "fulfilled", error: undefined };
+  }
+  const tracked = { ...request, requestIds, requestedAt: status.requestedAt, state: "pending" as const, error: undefined };
+  return isStale(tracked, now)
+    ? { ...tracked, state: "failed", error: "Timed out waiting for the decryption oracle" }
+    : tracked;
+}
+
+export function useDecryptionTracker() {
+  const [requests, setRequests] = useState<TrackedDecryptionRequests>(loadTrackedRequests);
+
+  const update = useCallback((fn: (prev: TrackedDecryptionRequests) => TrackedDecryptionRequests) => {
+    setRequests(prev => {
+      const next = fn(prev);
+      saveTrackedRequests(next);
+      return next;
+    });
+  }, []);
+
+  const track = useCallback((observationId: number, requestId: string, txHash: string) => {
+    update(prev => ({
+      ...prev,
+      [observationId]: {
+        observationId,
+        // Every attempt decrypts the same handles, so whichever is answered first reveals the reading
+        requestIds: [...(prev[observationId]?.requestIds || []), requestId],
+        txHash,
+        requestedAt: Date.now(),
+        state: "pending"
+      }
+    }));
+  }, [update]);
+
+  const markFailed = useCallback((observationId: number, error: string) => {
+    update(prev => prev[observationId]
+      ? { ...prev, [observationId]: { ...prev[observationId], state: "failed", error } }
+      : prev
+    );
+  }, [update]);
+
+  const hasPending = Object.values(requests).some(r => r.state === "pending");
+
+  useEffect(() => {
+    if (!hasPending) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      const client = await getLightPollutionClientReadOnly();
+      if (!client || cancelled) return;
+
+      const pending = Object.values(loadTrackedRequests()).filter(r => r.state === "pending");
+      const results: Record<number, { txHash: string; status: DecryptionStatus }> = {};
+      for (const request of pending) {
+        try {
+          const status = await client.getDecryptionStatus(request.observationId, request.txHash);
+          results[request.observationId] = { txHash: request.txHash, status };
+        } catch (e) {
+          console.error(`Error polling decryption of observation ${request.observationId}:`, e);
+        }
+      }
+      if (cancelled || Object.keys(results).length === 0) return;
+
+      update(prev => {
+        const next = { ...prev };
+        for (const [id, { txHash, status }] of Object.entries(results)) {
+          const current = next[Number(id)];
+          // A retry started meanwhile is polled from its own request next time
+          if (!current || current.state !== "pending" || current.txHash !== txHash) continue;
+          next[Number(id)] = applyDecryptionStatus(current, status);
+        }
+        return next;
+      });
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [hasPending, update]);
+
+  return { requests, track, markFailed };
+}
@@ -0,0 +1,64 @@
+// ephemeris.test.ts
+import { describe, expect, it } from "vitest";
+import { assessSkyContext, computeSkyContext, qualityFlagBits } from "./ephemeris";
+
+const unix = (iso: string) => Date.parse(iso) / 1000;
+
+describe("computeSkyContext", () => {
+  it("puts the sun overhead at equinox noon on the equator", () => {
+    const { sunAltitude } = computeSkyContext(0, 0, unix("2024-03-20T12:00:00Z"));
+    expect(sunAltitude).toBeGreaterThan(85);
+  });
+
+  it("puts the sun below the horizon at equinox midnight", () => {
+    const { sunAltitude } = computeSkyContext(0, 0, unix("2024-03-20T00:00:00Z"));
+    expect(sunAltitude).toBeLessThan(-80);
+  });
+
+  it("follows local time as the observer moves in longitude", () => {
+    // 12:00 UTC is midnight on the antimeridian
+    const { sunAltitude } = computeSkyContext(0, 180, unix("2024-03-20T12:00:00Z"));
+    expect(sunAltitude).toBeLessThan(-80);
+  });
+
+  it("keeps the midsummer sun above astronomical darkness at 60°N", () => {
+    const { sunAltitude } = computeSkyContext(60, 0, unix("2024-06-21T00:00:00Z"));
+    expect(sunAltitude).toBeGreaterThan(-10);
+    expect(sunAltitude).toBeLessThan(0);
+  });
+
+  it("tracks the lunar phase", () => {
+    const full = computeSkyContext(0, 0, unix("2024-01-25T17:54:00Z"));
+    const fresh = computeSkyContext(0, 0, unix("2024-01-11T11:57:00Z"));
+
+    expect(full.moonIllumination).toBeGreaterThan(0.98);
+    expect(fresh.moonIllumination).toBeLessThan(0.02);
+  });
+});
+
+describe("assessSkyContext", () => {
+  const dark = { sunAltitude: -30, moonAltitude: -10, moonIllumination: 1 };
+
+  it("passes a dark sky with the moon down", () => {
+    expect(assessSkyContext(dark)).toEqual({ flags: [], blocked: false });
+  });
+
+  it("flags twilight and blocks readings above nautical twilight", () => {
+    expect(assessSkyContext({ ...dark, sunAltitude: -15 })).toEqual({ flags: ["twilight"], blocked: false });
+    expect(assessSkyContext({ ...dark, sunAltitude: -5 })).toEqual({ flags: ["twilight"], blocked: true });
+  });
+
+  it("flags a risen moon only when it is bright enough", () => {
+    expect(assessSkyContext({ ...dark, moonAltitude: 20 }).flags).toEqual(["moonlit"]);
+    expect(assessSkyContext({ ...dark, moonAltitude: 20, moonIllumination: 0.05 }).flags).toEqual([]);
+  });
+});
+
+describe("qualityFlagBits", () => {
+  it("combines flags into the contract bitmask", () => {
+    expect(qualityFlagBits([])).toBe(0);
+    expect(qualityFlagBits(["twilight"])).toBe(1);
+    expect(qualityFlagBits(["moonlit"])).toBe(2);
+    expect(qualityFlagBits(["twilight", "moonlit"])).toBe(3);
+  });
+});
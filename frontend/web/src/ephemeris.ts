@@ -0,0 +1,96 @@
+// ephemeris.ts
+// Low-precision sun and moon positions (after Meeus, as popularised by SunCalc).
+// Accurate to well under a degree, which is plenty for judging sky darkness.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+const SUN_DISTANCE_KM = 149598000;
+
+// The sun must be this far below the horizon for astronomical darkness
+export const ASTRONOMICAL_DARKNESS_ALTITUDE = -18;
+// Above nautical twilight the sky background swamps any light pollution signal
+export const BLOCKING_SUN_ALTITUDE = -12;
+// A moon above the horizon brighter than this fraction contaminates SQM readings
+export const MOONLIGHT_ILLUMINATION = 0.1;
+
+export type QualityFlag = "twilight" | "moonlit";
+
+// Bit values passed to submitEncryptedObservation; must match the contract constants
+export const QUALITY_FLAG_BITS: Record<QualityFlag, number> = {
+  twilight: 1,
+  moonlit: 2
+};
+
+export interface SkyContext {
+  sunAltitude: number;        // degrees
+  moonAltitude: number;       // degrees
+  moonIllumination: number;   // illuminated fraction, 0..1
+}
+
+export interface SkyAssessment {
+  flags: QualityFlag[];
+  blocked: boolean;
+}
+
+const toDays = (timestamp: number) => (timestamp * 1000) / DAY_MS - 0.5 + J1970 - J2000;
+
+const rightAscension = (l: number, b: number) =>
+  Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY), Math.cos(l));
+
+const declination = (l: number, b: number) =>
+  Math.asin(Math.sin(b) * Math.cos(OBLIQUITY) + Math.cos(b) * Math.sin(OBLIQUITY) * Math.sin(l));
+
+const altitude = (hourAngle: number, phi: number, dec: number) =>
+  Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+
+const siderealTime = (d: number, lw: number) => RAD * (280.16 + 360.9856235 * d) - lw;
+
+function sunCoords(d: number) {
+  const m = RAD * (357.5291 + 0.98560028 * d);
+  const center = RAD * (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+  const l = m + center + RAD * 102.9372 + Math.PI;
+  return { dec: declination(l, 0), ra: rightAscension(l, 0) };
+}
+
+function moonCoords(d: number) {
+  const l = RAD * (218.316 + 13.176396 * d);
+  const m = RAD * (134.963 + 13.064993 * d);
+  const f = RAD * (93.272 + 13.22935 * d);
+  const lon = l + RAD * 6.289 * Math.sin(m);
+  const lat = RAD * 5.128 * Math.sin(f);
+  return { ra: rightAscension(lon, lat), dec: declination(lon, lat), dist: 385001 - 20905 * Math.cos(m) };
+}
+
+/** Sun and moon altitude and moon phase for a place and unix time (seconds). */
+export function computeSkyContext(latitude: number, longitude: number, timestamp: number): SkyContext {
+  const d = toDays(timestamp);
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const sun = sunCoords(d);
+  const moon = moonCoords(d);
+
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const phaseAngle = Math.atan2(SUN_DISTANCE_KM * Math.sin(elongation), moon.dist - SUN_DISTANCE_KM * Math.cos(elongation));
+
+  return {
+    sunAltitude: altitude(siderealTime(d, lw) - sun.ra, phi, sun.dec) / RAD,
+    moonAltitude: altitude(siderealTime(d, lw) - moon.ra, phi, moon.dec) / RAD,
+    moonIllumination: (1 + Math.cos(phaseAngle)) / 2
+  };
+}
+
+export function assessSkyContext(context: SkyContext): SkyAssessment {
+  const flags: QualityFlag[] = [];
+  if (context.sunAltitude > ASTRONOMICAL_DARKNESS_ALTITUDE) flags.push("twilight");
+  if (context.moonAltitude > 0 && context.moonIllumination >= MOONLIGHT_ILLUMINATION) flags.push("moonlit");
+  return { flags, blocked: context.sunAltitude > BLOCKING_SUN_ALTITUDE };
+}
+
+export function qualityFlagBits(flags: QualityFlag[]): number {
+  return flags.reduce((bits, flag) => bits | QUALITY_FLAG_BITS[flag], 0);
+}
@@ -0,0 +1,169 @@
+// eventLoader.ts
+import { ethers } from "ethers";
+import configJson from "./config.json";
+
+// Public RPCs commonly cap eth_getLogs ranges; we shrink on error down to MIN_PAGE_SIZE
+const DEFAULT_PAGE_SIZE = 5000;
+const MIN_PAGE_SIZE = 100;
+const CACHE_PREFIX = "light_pollution_event_cache_";
+
+const config = configJson;
+
+export interface StoredEntry {
+  key: string;
+  value: string;
+  sender: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+interface EntryCache {
+  lastBlock: number;
+  entries: Record<string, StoredEntry>;
+}
+
+/**
+ * Log replays start at the deployment block; without one a scan would page through
+ * the whole chain, so event features refuse to run instead.
+ */
+export function historyStartBlock(): number {
+  if (!config.deploymentBlock) {
+    throw new Error("Event history is unavailable: set deploymentBlock in config.json to the block the contracts were deployed in");
+  }
+  return config.deploymentBlock;
+}
+
+function cacheKey(address: string, prefix: string) {
+  return `${CACHE_PREFIX}${address.toLowerCase()}_${prefix}`;
+}
+
+function loadCache(address: string, prefix: string, startBlock: number): EntryCache {
+  try {
+    const raw = localStorage.getItem(cacheKey(address, prefix));
+    if (raw) {
+      const cache: EntryCache = JSON.parse(raw);
+      if (cache.lastBlock >= startBlock - 1) return cache;
+    }
+  } catch (e) {
+    console.error("Error reading event cache:", e);
+  }
+  return { lastBlock: startBlock - 1, entries: {} };
+}
+
+function saveCache(address: string, prefix: string, cache: EntryCache) {
+  try {
+    localStorage.setItem(cacheKey(address, prefix), JSON.stringify(cache));
+  } catch (e) {
+    // Quota errors only cost us a rescan next time
+    console.error("Error writing event cache:", e);
+  }
+}
+
+function isNewer(a: StoredEntry, b?: StoredEntry) {
+  if (!b) return true;
+  return a.blockNumber !== b.blockNumber ? a.blockNumber > b.blockNumber : a.logIndex > b.logIndex;
+}
+
+/**
+ * Fetches logs matching `topics` in `[from, latest]`, halving the page size whenever
+ * the RPC rejects a range, and hands each page to `onPage` in block order.
+ */
+export async function scanLogPages(
+  provider: ethers.Provider,
+  address: string,
+  topics: ethers.TopicFilter,
+  from: number,
+  latest: number,
+  onPage: (logs: ethers.Log[], to: number) => void
+) {
+  let pageSize = DEFAULT_PAGE_SIZE;
+  while (from <= latest) {
+    const to = Math.min(from + pageSize - 1, latest);
+    let logs: ethers.Log[];
+    try {
+      logs = await provider.getLogs({ address, topics, fromBlock: from, toBlock: to });
+    } catch (e) {
+      if (pageSize <= MIN_PAGE_SIZE) throw e;
+      pageSize = Math.max(MIN_PAGE_SIZE, Math.floor(pageSize / 2));
+      continue;
+    }
+    onPage(logs, to);
+    from = to + 1;
+  }
+}
+
+function toStoredEntry(contract: ethers.Contract, log: ethers.Log): StoredEntry | null {
+  const parsed = contract.interface.parseLog(log);
+  if (!parsed) return null;
+  return {
+    key: parsed.args.key,
+    value: parsed.args.value,
+    sender: parsed.args.sender,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash
+  };
+}
+
+/**
+ * Rebuilds the latest value of every UniversalAdapter key starting with `prefix`
+ * from DataStored logs, paging from the deployment block and resuming from a
+ * localStorage cache so only new blocks are fetched on later loads.
+ */
+export async function loadLatestEntries(
+  contract: ethers.Contract,
+  prefix: string,
+  onProgress?: (scannedTo: number, latest: number) => void
+): Promise<Record<string, StoredEntry>> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract has no provider");
+  }
+  
+  const address = await contract.getAddress();
+  const cache = loadCache(address, prefix, historyStartBlock());
+  const latest = await provider.getBlockNumber();
+  const topic = contract.interface.getEvent("DataStored")!.topicHash;
+  
+  await scanLogPages(provider, address, [topic], cache.lastBlock + 1, latest, (logs, to) => {
+    for (const log of logs) {
+      const entry = toStoredEntry(contract, log);
+      if (!entry || !entry.key.startsWith(prefix)) continue;
+      if (isNewer(entry, cache.entries[entry.key])) {
+        cache.entries[entry.key] = entry;
+      }
+    }
+    
+    cache.lastBlock = to;
+    saveCache(address, prefix, cache);
+    onProgress?.(to, latest);
+  });
+  
+  return cache.entries;
+}
+
+/**
+ * Returns every write to a single key in block order. DataStored does not index
+ * the key, so this is a full scan from the deployment block and is not cached.
+ */
+export async function loadEntryHistory(contract: ethers.Contract, key: string): Promise<StoredEntry[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract has no provider");
+  }
+  
+  const address = await contract.getAddress();
+  const latest = await provider.getBlockNumber();
+  const topic = contract.interface.getEvent("DataStored")!.topicHash;
+  
+  const history: StoredEntry[] = [];
+  await scanLogPages(provider, address, [topic], historyStartBlock(), latest, logs => {
+    for (const log of logs) {
+      const entry = toStoredEntry(contract, log);
+      if (entry && entry.key === key) history.push(entry);
+    }
+  });
+  
+  return history;
+}
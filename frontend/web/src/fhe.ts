@@ -0,0 +1,265 @@
+// fhe.ts
+import { initSDK, createInstance, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { ethers } from "ethers";
+
+// Fixed-point scale applied to coordinates before encryption (6 decimals ≈ 0.1 m)
+export const COORDINATE_SCALE = 1_000_000;
+
+// Sky quality in mag/arcsec² is kept to hundredths, the resolution SQM meters report
+export const SQM_SCALE = 100;
+// Naked-eye limiting magnitude is kept to tenths
+export const NELM_SCALE = 10;
+
+export const SQM_RANGE = { min: 14, max: 23 };
+export const NELM_RANGE = { min: 1, max: 8 };
+export const BORTLE_RANGE = { min: 1, max: 9 };
+export const CLOUD_COVER_RANGE = { min: 0, max: 100 };
+
+// Darkest first; thresholds follow the usual SQM-to-Bortle correspondence
+export const SKY_QUALITY_BANDS = [
+  { min: 21.75, label: "Excellent dark site" },
+  { min: 21.3, label: "Rural" },
+  { min: 20.8, label: "Rural/suburban transition" },
+  { min: 19.5, label: "Suburban" },
+  { min: 18.5, label: "Bright suburban" },
+  { min: 0, label: "City" }
+];
+
+/** A reading in physical units; optional fields are encrypted as 0 when absent. */
+export interface ObservationPlaintext {
+  skyQuality: number;       // mag/arcsec²
+  bortle?: number;
+  nelm?: number;
+  cloudCover: number;       // percent
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+export interface EncryptedObservationInput {
+  handles: string[];
+  inputProof: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFheInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!(window as any).ethereum) {
+        throw new Error("No injected wallet");
+      }
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+    })().catch(e => {
+      // Allow a later call to retry after a failed WASM or relayer initialisation
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
+
+export function skyQualityBand(skyQuality: number): number {
+  return SKY_QUALITY_BANDS.findIndex(band => skyQuality >= band.min);
+}
+
+/** Formats an encoded (fixed-point) sky quality value such as a revealed regional average. */
+export function formatSkyQuality(encoded: number): string {
+  return `${(encoded / SQM_SCALE).toFixed(2)} mag/arcsec²`;
+}
+
+const inRange = (value: number, range: { min: number; max: number }) =>
+  Number.isFinite(value) && value >= range.min && value <= range.max;
+
+export function validateObservation(observation: ObservationPlaintext): string[] {
+  const errors: string[] = [];
+  if (!inRange(observation.skyQuality, SQM_RANGE)) {
+    errors.push(`Sky quality must be between ${SQM_RANGE.min} and ${SQM_RANGE.max} mag/arcsec²`);
+  }
+  if (observation.bortle !== undefined && !(Number.isInteger(observation.bortle) && inRange(observation.bortle, BORTLE_RANGE))) {
+    errors.push(`Bortle class must be a whole number from ${BORTLE_RANGE.min} to ${BORTLE_RANGE.max}`);
+  }
+  if (observation.nelm !== undefined && !inRange(observation.nelm, NELM_RANGE)) {
+    errors.push(`Limiting magnitude must be between ${NELM_RANGE.min} and ${NELM_RANGE.max}`);
+  }
+  if (!inRange(observation.cloudCover, CLOUD_COVER_RANGE)) {
+    errors.push(`Cloud cover must be between ${CLOUD_COVER_RANGE.min} and ${CLOUD_COVER_RANGE.max}%`);
+  }
+  return errors;
+}
+
+/** Fixed-point encodes a reading in the handle order submitEncryptedObservation expects. */
+export function encodeObservation(observation: ObservationPlaintext): number[] {
+  const errors = validateObservation(observation);
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+  return [
+    Math.round(observation.skyQuality * SQM_SCALE),
+    encodeLatitude(observation.latitude),
+    encodeLongitude(observation.longitude),
+    observation.timestamp,
+    observation.bortle ?? 0,
+    observation.nelm !== undefined ? Math.round(observation.nelm * NELM_SCALE) : 0,
+    Math.round(observation.cloudCover)
+  ];
+}
+
+export function decodeObservation(values: number[]): ObservationPlaintext {
+  const [skyQuality, latitude, longitude, timestamp, bortle, nelm, cloudCover] = values;
+  return {
+    skyQuality: skyQuality / SQM_SCALE,
+    bortle: bortle || undefined,
+    nelm: nelm ? nelm / NELM_SCALE : undefined,
+    cloudCover,
+    latitude: decodeLatitude(latitude),
+    longitude: decodeLongitude(longitude),
+    timestamp
+  };
+}
+
+// Shift into the unsigned range so negative coordinates survive euint32 encoding
+export function encodeLatitude(latitude: number): number {
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    throw new Error("Latitude must be between -90 and 90");
+  }
+  return Math.round((latitude + 90) * COORDINATE_SCALE);
+}
+
+export function encodeLongitude(longitude: number): number {
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error("Longitude must be between -180 and 180");
+  }
+  return Math.round((longitude + 180) * COORDINATE_SCALE);
+}
+
+export function decodeLatitude(encoded: number): number {
+  return encoded / COORDINATE_SCALE - 90;
+}
+
+export function decodeLongitude(encoded: number): number {
+  return encoded / COORDINATE_SCALE - 180;
+}
+
+export async function encryptObservation(
+  contractAddress: string,
+  userAddress: string,
+  observation: ObservationPlaintext
+): Promise<EncryptedObservationInput> {
+  const instance = await getFheInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of encodeObservation(observation)) {
+    input.add32(value);
+  }
+  
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+/** Encrypts a region owner's minimum acceptable sky quality (mag/arcsec²). */
+export async function encryptSkyQualityThreshold(
+  contractAddress: string,
+  userAddress: string,
+  skyQuality: number
+): Promise<{ handle: string; inputProof: string }> {
+  if (!inRange(skyQuality, SQM_RANGE)) {
+    throw new Error(`Threshold must be between ${SQM_RANGE.min} and ${SQM_RANGE.max} mag/arcsec²`);
+  }
+  const instance = await getFheInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(Math.round(skyQuality * SQM_SCALE));
+  
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+// The relayer accepts at most 2048 bits per encrypted input, so nine 7-value readings
+export const MAX_INPUT_BITS = 2048;
+export const OBSERVATION_VALUE_COUNT = 7;
+// Must not exceed MAX_BATCH_SIZE in the contract
+export const OBSERVATIONS_PER_INPUT = Math.floor(MAX_INPUT_BITS / (32 * OBSERVATION_VALUE_COUNT));
+
+export interface EncryptedObservationBatch {
+  handles: string[][];      // per observation, in encodeObservation order
+  inputProof: string;
+}
+
+/** Packs several readings into one encrypted input so a single proof covers them all. */
+export async function encryptObservationBatch(
+  contractAddress: string,
+  userAddress: string,
+  observations: ObservationPlaintext[]
+): Promise<EncryptedObservationBatch> {
+  if (observations.length === 0 || observations.length > OBSERVATIONS_PER_INPUT) {
+    throw new Error(`A batch must hold between 1 and ${OBSERVATIONS_PER_INPUT} observations`);
+  }
+  // Validate everything before the relayer round trip
+  const encoded = observations.map(encodeObservation);
+  
+  const instance = await getFheInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of encoded.flat()) {
+    input.add32(value);
+  }
+  
+  const { handles, inputProof } = await input.encrypt();
+  const hexHandles = handles.map(h => ethers.hexlify(h));
+  return {
+    handles: encoded.map((_, i) => hexHandles.slice(i * OBSERVATION_VALUE_COUNT, (i + 1) * OBSERVATION_VALUE_COUNT)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export function splitIntoBatches<T>(items: T[], size: number = OBSERVATIONS_PER_INPUT): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+// How long a user-decryption signature stays valid once granted
+const USER_DECRYPT_DURATION_DAYS = 1;
+
+export async function userDecryptHandles(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<number[]> {
+  const instance = await getFheInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, USER_DECRYPT_DURATION_DAYS);
+  
+  // The EIP712Domain entry must not be passed to ethers, it derives it from the domain itself
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+  
+  return handles.map(handle => Number(results[handle]));
+}
+
+export async function userDecryptObservation(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<ObservationPlaintext> {
+  return decodeObservation(await userDecryptHandles(handles, contractAddress, signer));
+}
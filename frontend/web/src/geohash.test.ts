@@ -0,0 +1,70 @@
+// geohash.test.ts
+import { describe, expect, it } from "vitest";
+import { decodeGeohashBounds, encodeGeohash, isGeohash, regionCellBounds, snapToCell } from "./geohash";
+
+// Reference point from the original geohash.org announcement
+const JUTLAND = { latitude: 57.64911, longitude: 10.40744, hash: "u4pruydqqvj" };
+
+describe("encodeGeohash", () => {
+  it("matches the reference hash at every precision", () => {
+    for (let precision = 1; precision <= JUTLAND.hash.length; precision++) {
+      expect(encodeGeohash(JUTLAND.latitude, JUTLAND.longitude, precision)).toBe(JUTLAND.hash.substring(0, precision));
+    }
+  });
+
+  it("places the corners of the map in the outermost cells", () => {
+    expect(encodeGeohash(-90, -180, 2)).toBe("00");
+    expect(encodeGeohash(90, 180, 2)).toBe("zz");
+  });
+
+  it("rejects out-of-range coordinates and precisions", () => {
+    expect(() => encodeGeohash(91, 0, 4)).toThrow("Coordinates out of range");
+    expect(() => encodeGeohash(0, NaN, 4)).toThrow("Coordinates out of range");
+    expect(() => encodeGeohash(0, 0, 0)).toThrow("Invalid geohash precision: 0");
+    expect(() => encodeGeohash(0, 0, 2.5)).toThrow("Invalid geohash precision: 2.5");
+  });
+});
+
+describe("decodeGeohashBounds", () => {
+  it("returns a cell containing the encoded point", () => {
+    const bounds = decodeGeohashBounds(JUTLAND.hash.substring(0, 5));
+
+    expect(bounds.minLat).toBeLessThanOrEqual(JUTLAND.latitude);
+    expect(bounds.maxLat).toBeGreaterThan(JUTLAND.latitude);
+    expect(bounds.minLon).toBeLessThanOrEqual(JUTLAND.longitude);
+    expect(bounds.maxLon).toBeGreaterThan(JUTLAND.longitude);
+  });
+
+  it("halves the cell alternately in longitude and latitude", () => {
+    expect(decodeGeohashBounds("s")).toEqual({ minLat: 0, maxLat: 45, minLon: 0, maxLon: 45 });
+    expect(decodeGeohashBounds("s0")).toEqual({ minLat: 0, maxLat: 5.625, minLon: 0, maxLon: 11.25 });
+  });
+
+  it("rejects characters outside the geohash alphabet", () => {
+    expect(isGeohash("u4pru")).toBe(true);
+    expect(isGeohash("u4pra")).toBe(false);
+    expect(isGeohash("")).toBe(false);
+    expect(isGeohash("0".repeat(13))).toBe(false);
+    expect(() => decodeGeohashBounds("U4PRU")).toThrow("Invalid geohash: U4PRU");
+  });
+});
+
+describe("snapToCell", () => {
+  it("replaces the point with the centre of its cell", () => {
+    const cell = snapToCell(JUTLAND.latitude, JUTLAND.longitude, 4);
+
+    expect(cell.hash).toBe("u4pr");
+    expect(cell.regionCode).toBe("gh:u4pr");
+    expect(cell.center.latitude).toBe((cell.bounds.minLat + cell.bounds.maxLat) / 2);
+    expect(cell.center.longitude).toBe((cell.bounds.minLon + cell.bounds.maxLon) / 2);
+    expect(encodeGeohash(cell.center.latitude, cell.center.longitude, 4)).toBe(cell.hash);
+  });
+});
+
+describe("regionCellBounds", () => {
+  it("decodes grid cell region codes only", () => {
+    expect(regionCellBounds("gh:s")).toEqual(decodeGeohashBounds("s"));
+    expect(regionCellBounds("Tucson")).toBeNull();
+    expect(regionCellBounds("gh:not-a-cell")).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+// geohash.ts
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Region codes that name a grid cell rather than a free-text place
+export const GEOHASH_REGION_PREFIX = "gh:";
+
+export interface CellBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+// Precisions a contributor may choose, with the approximate cell width at the equator
+export const GEOHASH_PRECISIONS = [
+  { precision: 2, size: "~1250 km" },
+  { precision: 3, size: "~156 km" },
+  { precision: 4, size: "~39 km" },
+  { precision: 5, size: "~4.9 km" },
+  { precision: 6, size: "~1.2 km" }
+];
+export const DEFAULT_GEOHASH_PRECISION = 4;
+
+export interface GridCell {
+  hash: string;
+  regionCode: string;
+  bounds: CellBounds;
+  center: { latitude: number; longitude: number };
+}
+
+export function isGeohash(hash: string): boolean {
+  return hash.length > 0 && hash.length <= 12 && [...hash].every(c => BASE32.includes(c));
+}
+
+export function decodeGeohashBounds(hash: string): CellBounds {
+  if (!isGeohash(hash)) {
+    throw new Error(`Invalid geohash: ${hash}`);
+  }
+  
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let evenBit = true;
+  for (const c of hash) {
+    const bits = BASE32.indexOf(c);
+    for (let i = 4; i >= 0; i--) {
+      // Bits alternate longitude, latitude, starting with longitude
+      const range = evenBit ? lon : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((bits >> i) & 1) range[0] = mid; else range[1] = mid;
+      evenBit = !evenBit;
+    }
+  }
+  return { minLat: lat[0], maxLat: lat[1], minLon: lon[0], maxLon: lon[1] };
+}
+
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  if (!(latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180)) {
+    throw new Error("Coordinates out of range");
+  }
+  if (!Number.isInteger(precision) || precision < 1 || precision > 12) {
+    throw new Error(`Invalid geohash precision: ${precision}`);
+  }
+  
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let evenBit = true;
+  let hash = "";
+  let bits = 0;
+  let bitCount = 0;
+  while (hash.length < precision) {
+    const range = evenBit ? lon : lat;
+    const value = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+    
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Snaps a point to the centre of its geohash cell. Callers encrypt and publish
+ * the cell only, so the exact point never leaves the browser.
+ */
+export function snapToCell(latitude: number, longitude: number, precision: number): GridCell {
+  const hash = encodeGeohash(latitude, longitude, precision);
+  const bounds = decodeGeohashBounds(hash);
+  return {
+    hash,
+    regionCode: `${GEOHASH_REGION_PREFIX}${hash}`,
+    bounds,
+    center: {
+      latitude: (bounds.minLat + bounds.maxLat) / 2,
+      longitude: (bounds.minLon + bounds.maxLon) / 2
+    }
+  };
+}
+
+/** Bounds of the grid cell a region code refers to, or null for free-text regions. */
+export function regionCellBounds(regionCode: string): CellBounds | null {
+  if (!regionCode.startsWith(GEOHASH_REGION_PREFIX)) return null;
+  const hash = regionCode.substring(GEOHASH_REGION_PREFIX.length);
+  return isGeohash(hash) ? decodeGeohashBounds(hash) : null;
+}
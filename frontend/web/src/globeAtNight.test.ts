@@ -0,0 +1,96 @@
+// globeAtNight.test.ts
+import { describe, expect, it } from "vitest";
+import { GLOBE_AT_NIGHT_COLUMNS, nelmToSkyQuality, parseGlobeAtNightCsv, skyQualityToNelm, toGlobeAtNightCsv } from "./globeAtNight";
+import { encodeGeohash } from "./geohash";
+
+// Tucson around the new moon of 11 January 2024; 06:00 UT is 23:00 local time
+const csv = [
+  "\uFEFFID,ObsType,ObsID,Latitude,Longitude,Elevation(m),LocalDate,LocalTime,UTDate,UTTime,LimitingMag,SQMReading,SQMSerial,CloudCover,Constellation,SkyComment,LocationComment,Country",
+  "1,SQM,G-1001,32.2217,-110.9265,728,2024-01-10,23:00,2024-01-11,06:00,-9999,21.05,1234,0 of sky,Orion,,\"Backyard, north side\",United States",
+  "2,Naked eye,G-1002,32.25,-110.95,730,1/10/2024,23:30,1/11/2024,6:30,5,-9999,,1/4 of sky,Orion,,,United States",
+  "3,Naked eye,G-1003,32.25,-110.95,730,2024-01-11,12:00,2024-01-11,19:00,4,-9999,,0 of sky,Orion,,,United States",
+  "4,Naked eye,G-1004,32.25,-110.95,730,2024-01-10,23:30,2024-01-11,06:30,0,-9999,,0 of sky,Orion,,,United States",
+  "5,Naked eye,G-1005,95,-110.95,730,2024-01-10,23:30,2024-01-11,06:30,4,-9999,,0 of sky,Orion,,,United States",
+  "6,Naked eye,,32.25,-110.95,730,2024-01-10,23:30,2024-01-11,06:30,3,-9999,,over 1/2 of sky,Orion,,,United States",
+  ""
+].join("\r\n");
+
+describe("limiting magnitude conversion", () => {
+  it("round-trips between limiting magnitude and sky brightness", () => {
+    for (const nelm of [3, 4.5, 6, 6.8]) {
+      expect(skyQualityToNelm(nelmToSkyQuality(nelm))).toBeCloseTo(nelm, 6);
+    }
+  });
+
+  it("gets darker as fainter stars become visible", () => {
+    expect(nelmToSkyQuality(6)).toBeGreaterThan(nelmToSkyQuality(4));
+    expect(nelmToSkyQuality(6)).toBeGreaterThan(20);
+    expect(nelmToSkyQuality(6)).toBeLessThan(21.5);
+  });
+});
+
+describe("parseGlobeAtNightCsv", () => {
+  const { observations, skippedRows } = parseGlobeAtNightCsv(csv, 4);
+
+  it("skips daylight rows, missing magnitudes and impossible positions", () => {
+    expect(observations.map(o => o.obsId)).toEqual(["G-1001", "G-1002", "6"]);
+    expect(skippedRows).toBe(3);
+  });
+
+  it("prefers the SQM reading when there is one", () => {
+    const [meter] = observations;
+    expect(meter.instrument).toBe("SQM");
+    expect(meter.skyQualityDerived).toBe(false);
+    expect(meter.reading.skyQuality).toBe(21.05);
+    expect(meter.reading.nelm).toBeUndefined();
+    expect(meter.reading.timestamp).toBe(Date.parse("2024-01-11T06:00:00Z") / 1000);
+    expect(meter.country).toBe("United States");
+  });
+
+  it("derives sky quality from naked-eye counts", () => {
+    const eye = observations[1];
+    expect(eye.instrument).toBe("Naked eye");
+    expect(eye.skyQualityDerived).toBe(true);
+    expect(eye.reading.nelm).toBe(5);
+    expect(eye.reading.skyQuality).toBe(Math.round(nelmToSkyQuality(5) * 100) / 100);
+    expect(eye.reading.timestamp).toBe(Date.parse("2024-01-11T06:30:00Z") / 1000);
+  });
+
+  it("converts cloud cover fractions to percent", () => {
+    expect(observations.map(o => o.reading.cloudCover)).toEqual([0, 25, 75]);
+  });
+
+  it("replaces the site with the centre of its grid cell", () => {
+    const { cell, reading } = observations[0];
+    expect(cell.hash).toBe(encodeGeohash(32.2217, -110.9265, 4));
+    expect(reading.latitude).toBe(cell.center.latitude);
+    expect(reading.longitude).toBe(cell.center.longitude);
+  });
+
+  it("rejects files without the required columns", () => {
+    expect(() => parseGlobeAtNightCsv("ID,Latitude,Longitude\n1,32,-110", 4)).toThrow(
+      "Not a Globe at Night file: missing UTDate column"
+    );
+  });
+});
+
+describe("toGlobeAtNightCsv", () => {
+  const average = { average: 2140, sampleCount: 12, requestedSampleCount: 12, revealedAt: 1_700_000_000, isRevealed: true, isPending: false };
+
+  it("writes one row per revealed grid cell average", () => {
+    const lines = toGlobeAtNightCsv(
+      [
+        { regionCode: "gh:s", observationCount: 12 },
+        { regionCode: "gh:u", observationCount: 4 },
+        { regionCode: "Tucson", observationCount: 9 }
+      ],
+      { "gh:s": average, "gh:u": { ...average, isRevealed: false }, "Tucson": average }
+    ).split("\r\n");
+
+    expect(lines[0]).toBe(GLOBE_AT_NIGHT_COLUMNS.join(","));
+    expect(lines[1]).toBe(
+      "1,SQM,gh:s,22.5000,22.5000,,,,2023-11-14,22:13,6,21.40,,,,\"Mean of 12 encrypted observations, revealed 2023-11-14\",Grid cell gh:s,"
+    );
+    expect(lines.slice(2)).toEqual([""]);
+  });
+});
@@ -0,0 +1,193 @@
+// globeAtNight.ts
+// Reads and writes the CSV layout of the Globe at Night citizen-science data downloads.
+import { assessSkyContext, computeSkyContext, QualityFlag } from "./ephemeris";
+import { ObservationPlaintext, SQM_RANGE, SQM_SCALE } from "./fhe";
+import { GridCell, regionCellBounds, snapToCell } from "./geohash";
+import type { RegionAverage, RegionSummary } from "./contract";
+
+export const GLOBE_AT_NIGHT_COLUMNS = [
+  "ID", "ObsType", "ObsID", "Latitude", "Longitude", "Elevation(m)", "LocalDate", "LocalTime",
+  "UTDate", "UTTime", "LimitingMag", "SQMReading", "SQMSerial", "CloudCover", "Constellation",
+  "SkyComment", "LocationComment", "Country"
+];
+
+// Globe at Night reports cloud cover as a fraction of the sky, not a percentage
+const CLOUD_COVER_PERCENT: [RegExp, number][] = [
+  [/^(0|clear)/i, 0],
+  [/over 1\/2/i, 75],
+  [/1\/4/i, 25],
+  [/1\/2/i, 50]
+];
+
+// Charts run from magnitude 1 to 7; 0 means the constellation could not be found
+const CHART_MAGNITUDE_RANGE = { min: 1, max: 7 };
+
+export interface GlobeAtNightObservation {
+  obsId: string;
+  country: string;
+  reading: ObservationPlaintext;      // located at the grid cell centre
+  cell: GridCell;
+  instrument: "SQM" | "Naked eye";
+  skyQualityDerived: boolean;         // true when converted from the limiting magnitude
+  flags: QualityFlag[];
+}
+
+export interface GlobeAtNightImport {
+  observations: GlobeAtNightObservation[];
+  skippedRows: number;
+}
+
+/**
+ * Converts between naked-eye limiting magnitude and zenith sky brightness using
+ * the common approximation NELM = 7.93 - 5·log10(10^(4.316 - SQM/5) + 1).
+ */
+export function nelmToSkyQuality(nelm: number): number {
+  return 5 * (4.316 - Math.log10(Math.pow(10, (7.93 - nelm) / 5) - 1));
+}
+
+export function skyQualityToNelm(skyQuality: number): number {
+  return 7.93 - 5 * Math.log10(Math.pow(10, 4.316 - skyQuality / 5) + 1);
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+}
+
+// Downloads mix ISO dates and US-style M/D/YYYY depending on the year
+function parseUtc(date: string, time: string): number {
+  const us = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const isoDate = us ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}` : date;
+  const [hours = "0", minutes = "0", seconds = "0"] = time.split(":");
+  return Date.parse(`${isoDate}T${hours.padStart(2, "0")}:${minutes.padStart(2, "0")}:${seconds.padStart(2, "0")}Z`) / 1000;
+}
+
+function cloudCoverPercent(value: string): number | null {
+  const match = CLOUD_COVER_PERCENT.find(([pattern]) => pattern.test(value.trim()));
+  return match ? match[1] : null;
+}
+
+/** Parses a Globe at Night CSV, snapping every location to a grid cell of the given precision. */
+export function parseGlobeAtNightCsv(text: string, precision: number): GlobeAtNightImport {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = (header || []).map(c => c.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name.toLowerCase());
+  for (const required of ["Latitude", "Longitude", "UTDate", "UTTime", "LimitingMag", "CloudCover"]) {
+    if (column(required) < 0) {
+      throw new Error(`Not a Globe at Night file: missing ${required} column`);
+    }
+  }
+  const get = (row: string[], name: string) => (row[column(name)] ?? "").trim();
+
+  const observations: GlobeAtNightObservation[] = [];
+  let skippedRows = 0;
+  for (const row of rows) {
+    const latitude = parseFloat(get(row, "Latitude"));
+    const longitude = parseFloat(get(row, "Longitude"));
+    const timestamp = parseUtc(get(row, "UTDate"), get(row, "UTTime"));
+    const limitingMag = parseFloat(get(row, "LimitingMag"));
+    const sqm = parseFloat(get(row, "SQMReading"));
+    const cloudCover = cloudCoverPercent(get(row, "CloudCover"));
+
+    // Missing values are written as -9999 or left empty
+    const hasSqm = sqm >= SQM_RANGE.min && sqm <= SQM_RANGE.max;
+    const hasNelm = limitingMag >= CHART_MAGNITUDE_RANGE.min && limitingMag <= CHART_MAGNITUDE_RANGE.max;
+    if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180 ||
+        !Number.isFinite(timestamp) || cloudCover === null || (!hasSqm && !hasNelm)) {
+      skippedRows++;
+      continue;
+    }
+
+    // The exact site never goes further than picking the cell
+    const cell = snapToCell(latitude, longitude, precision);
+    const sky = assessSkyContext(computeSkyContext(cell.center.latitude, cell.center.longitude, timestamp));
+    if (sky.blocked) {
+      skippedRows++;
+      continue;
+    }
+
+    const skyQuality = hasSqm
+      ? sqm
+      : Math.min(SQM_RANGE.max, Math.max(SQM_RANGE.min, Math.round(nelmToSkyQuality(limitingMag) * SQM_SCALE) / SQM_SCALE));
+    observations.push({
+      obsId: get(row, "ObsID") || get(row, "ID"),
+      country: get(row, "Country"),
+      reading: {
+        skyQuality,
+        nelm: hasNelm ? limitingMag : undefined,
+        cloudCover,
+        latitude: cell.center.latitude,
+        longitude: cell.center.longitude,
+        timestamp
+      },
+      cell,
+      instrument: hasSqm ? "SQM" : "Naked eye",
+      skyQualityDerived: !hasSqm,
+      flags: sky.flags
+    });
+  }
+  return { observations, skippedRows };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One Globe at Night row per revealed regional average, placed at the cell centre.
+ * Regions without a grid cell have no position and are left out.
+ */
+export function toGlobeAtNightCsv(regions: RegionSummary[], averages: Record<string, RegionAverage>): string {
+  const lines = [GLOBE_AT_NIGHT_COLUMNS.join(",")];
+  let id = 0;
+  for (const region of regions) {
+    const average = averages[region.regionCode];
+    const bounds = regionCellBounds(region.regionCode);
+    if (!average?.isRevealed || !bounds) continue;
+
+    const skyQuality = average.average / SQM_SCALE;
+    const revealedAt = new Date(average.revealedAt * 1000).toISOString();
+    const chartMagnitude = Math.min(CHART_MAGNITUDE_RANGE.max, Math.max(0, Math.round(skyQualityToNelm(skyQuality))));
+    const values: Record<string, string> = {
+      "ID": String(++id),
+      "ObsType": "SQM",
+      "ObsID": region.regionCode,
+      "Latitude": ((bounds.minLat + bounds.maxLat) / 2).toFixed(4),
+      "Longitude": ((bounds.minLon + bounds.maxLon) / 2).toFixed(4),
+      "UTDate": revealedAt.substring(0, 10),
+      "UTTime": revealedAt.substring(11, 16),
+      "LimitingMag": String(chartMagnitude),
+      "SQMReading": skyQuality.toFixed(2),
+      "SkyComment": `Mean of ${average.sampleCount} encrypted observations, revealed ${revealedAt.substring(0, 10)}`,
+      "LocationComment": `Grid cell ${region.regionCode}`
+    };
+    lines.push(GLOBE_AT_NIGHT_COLUMNS.map(c => csvField(values[c] ?? "")).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
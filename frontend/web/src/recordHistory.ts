@@ -0,0 +1,116 @@
+// recordHistory.ts
+import { ethers } from "ethers";
+import { getContractReadOnly, getLightPollutionClientReadOnly } from "./contract";
+import { loadEntryHistory } from "./eventLoader";
+import { RECORD_PREFIX } from "./recordIndex";
+import { LightPollutionRecord, parseStoredRecord, RecordStatus } from "./recordSchema";
+
+export type HistoryAction = "submitted" | "approved" | "verified" | "rejected" | "stored";
+
+/**
+ * One status transition. Entries are rebuilt from event logs, which cannot be
+ * rewritten, rather than from the record JSON, which any later write replaces.
+ */
+export interface StatusHistoryEntry {
+  action: HistoryAction;
+  status: RecordStatus;
+  actor: string;
+  timestamp: number;
+  reason?: string;
+  approvals?: number;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  source: "contract" | "store";
+}
+
+async function loadContractHistory(record: LightPollutionRecord): Promise<StatusHistoryEntry[]> {
+  if (record.observationId === undefined) return [];
+  const lightPollution = await getLightPollutionClientReadOnly();
+  if (!lightPollution) return [];
+  
+  const entries: StatusHistoryEntry[] = [];
+  for (const event of await lightPollution.getObservationHistory(record.observationId)) {
+    const base = {
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      timestamp: 0,
+      source: "contract" as const
+    };
+    switch (event.name) {
+      case "ObservationSubmitted":
+        entries.push({ ...base, action: "submitted", status: "pending", actor: record.contributor, timestamp: event.submissionTime });
+        break;
+      case "ObservationApproved":
+        entries.push({ ...base, action: "approved", status: "pending", actor: event.verifier, approvals: event.approvals });
+        break;
+      case "ObservationVerified": {
+        // Emitted in the same transaction as the approval that met the quorum
+        const approval = entries.find(entry => entry.txHash === event.transactionHash && entry.action === "approved");
+        entries.push({ ...base, action: "verified", status: "verified", actor: approval ? approval.actor : "" });
+        break;
+      }
+      case "ObservationRejected":
+        entries.push({ ...base, action: "rejected", status: "rejected", actor: event.verifier, reason: event.reason });
+        break;
+    }
+  }
+  return entries;
+}
+
+// Writes to the record key that changed its status, including the initial store
+async function loadStoreHistory(record: LightPollutionRecord): Promise<StatusHistoryEntry[]> {
+  const contract = await getContractReadOnly();
+  if (!contract) return [];
+  
+  const entries: StatusHistoryEntry[] = [];
+  let previous: RecordStatus | null = null;
+  for (const write of await loadEntryHistory(contract, `${RECORD_PREFIX}${record.id}`)) {
+    if (ethers.dataLength(write.value) === 0) continue;
+    const parsed = parseStoredRecord(record.id, write.value);
+    if (!parsed.ok || parsed.record.status === previous) continue;
+    
+    const status: RecordStatus = parsed.record.status;
+    entries.push({
+      action: previous === null || status === "pending" ? "stored" : status,
+      status,
+      actor: write.sender,
+      timestamp: 0,
+      txHash: write.transactionHash,
+      blockNumber: write.blockNumber,
+      logIndex: write.logIndex,
+      source: "store"
+    });
+    previous = status;
+  }
+  return entries;
+}
+
+export async function loadRecordHistory(record: LightPollutionRecord): Promise<StatusHistoryEntry[]> {
+  const [contractHistory, storeHistory] = await Promise.all([
+    loadContractHistory(record),
+    loadStoreHistory(record)
+  ]);
+  
+  // Moderated records take their status from the contract; the store writes are only mirrors
+  const entries = [...contractHistory, ...storeHistory];
+  entries.sort((a, b) =>
+    a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.logIndex - b.logIndex
+  );
+  
+  const contract = await getContractReadOnly();
+  const provider = contract?.runner?.provider;
+  if (provider) {
+    const blockTimes = new Map<number, number>();
+    for (const entry of entries) {
+      if (entry.timestamp) continue;
+      if (!blockTimes.has(entry.blockNumber)) {
+        const block = await provider.getBlock(entry.blockNumber);
+        blockTimes.set(entry.blockNumber, block ? block.timestamp : 0);
+      }
+      entry.timestamp = blockTimes.get(entry.blockNumber)!;
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,92 @@
+// recordIndex.ts
+import { ethers } from "ethers";
+import { sendAndConfirm } from "./txOrchestrator";
+
+export const RECORD_PREFIX = "light_pollution_";
+// Legacy shared index; read for old records but no longer written
+export const LEGACY_INDEX_KEY = "light_pollution_keys";
+// Legacy shared contributor list; read for old records but no longer written
+export const CONTRIBUTORS_KEY = "light_pollution_contributors";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 1500;
+
+/**
+ * Each contributor appends only to their own index key, so submissions from
+ * different wallets never read-modify-write the same value. Contributors are not
+ * registered anywhere; log readers find them as the writers of their own index key.
+ */
+export function contributorIndexKey(contributor: string) {
+  return `${LEGACY_INDEX_KEY}_${contributor.toLowerCase()}`;
+}
+
+export function isIndexKey(key: string) {
+  return key.startsWith(LEGACY_INDEX_KEY) || key.startsWith(CONTRIBUTORS_KEY);
+}
+
+async function readList(contract: ethers.Contract, key: string): Promise<string[]> {
+  const bytes = await contract.getData(key);
+  if (ethers.dataLength(bytes) === 0) return [];
+  try {
+    const list = JSON.parse(ethers.toUtf8String(bytes));
+    return Array.isArray(list) ? list.filter((item: unknown) => typeof item === "string") : [];
+  } catch (e) {
+    console.error(`Error parsing index ${key}:`, e);
+    return [];
+  }
+}
+
+// Serialises writes per key within this page; other tabs are covered by verify-and-retry
+const appendQueues = new Map<string, Promise<unknown>>();
+
+function enqueue(key: string, write: () => Promise<void>): Promise<void> {
+  const previous = appendQueues.get(key) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  appendQueues.set(key, next);
+  return next;
+}
+
+async function appendWithRetry(contract: ethers.Contract, key: string, items: string[]) {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const list = await readList(contract, key);
+    const missing = items.filter(item => !list.includes(item));
+    if (missing.length === 0) return;
+    
+    await sendAndConfirm(() => contract.setData(key, ethers.toUtf8Bytes(JSON.stringify([...list, ...missing]))));
+    
+    // A concurrent writer may have replaced the value between our read and write
+    const written = await readList(contract, key);
+    if (items.every(item => written.includes(item))) return;
+    
+    console.warn(`Index ${key} changed concurrently, retrying (attempt ${attempt})`);
+    await new Promise(res => setTimeout(res, RETRY_DELAY_MS * attempt));
+  }
+  throw new Error(`Could not append ${items.join(", ")} to ${key} after ${MAX_ATTEMPTS} attempts`);
+}
+
+export function appendToIndex(contract: ethers.Contract, key: string, items: string[]): Promise<void> {
+  return enqueue(key, () => appendWithRetry(contract, key, items));
+}
+
+// One index write covers every record id passed, e.g. a whole imported batch
+export async function indexRecords(contract: ethers.Contract, contributor: string, recordIds: string[]) {
+  await appendToIndex(contract, contributorIndexKey(contributor), recordIds);
+}
+
+/**
+ * Reads the legacy index and the indexes of legacy-listed contributors plus
+ * `contributors`; without logs there is no way to enumerate anyone else.
+ */
+export async function loadIndexedRecordIds(contract: ethers.Contract, contributors: string[]): Promise<string[]> {
+  const ids = new Set(await readList(contract, LEGACY_INDEX_KEY));
+  const allContributors = new Set([
+    ...(await readList(contract, CONTRIBUTORS_KEY)).map(c => c.toLowerCase()),
+    ...contributors.map(c => c.toLowerCase())
+  ]);
+  for (const contributor of allContributors) {
+    for (const id of await readList(contract, contributorIndexKey(contributor))) {
+      ids.add(id);
+    }
+  }
+  return [...ids];
+}
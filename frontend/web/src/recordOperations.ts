@@ -0,0 +1,148 @@
+// recordOperations.ts
+import { ethers } from "ethers";
+import { getContractWithSigner, getLightPollutionClientWithSigner } from "./contract";
+import { indexRecords, RECORD_PREFIX } from "./recordIndex";
+import { readStoredRecord, StoredRecord } from "./recordSchema";
+import { OperationDefinitions, OperationOf, sendAndConfirm } from "./txOrchestrator";
+
+export interface SubmitRecordContext {
+  recordId: string;
+  contributor: string;
+  record: StoredRecord;
+}
+
+export interface SubmitBatchContext {
+  contributor: string;
+  records: { recordId: string; record: StoredRecord }[];
+  // Records this operation wrote itself; rollback clears only these
+  stored?: string[];
+}
+
+export interface ModerateRecordContext {
+  recordId: string;
+  observationId: number;
+  decision: "approve" | "reject";
+  reason?: string;
+}
+
+export interface RecordOperationContexts {
+  submit: SubmitRecordContext;
+  submitBatch: SubmitBatchContext;
+  moderate: ModerateRecordContext;
+}
+
+export type RecordOperation = OperationOf<RecordOperationContexts>;
+
+async function getAdapter() {
+  const contract = await getContractWithSigner();
+  if (!contract) {
+    throw new Error("Failed to get contract with signer");
+  }
+  return contract;
+}
+
+export const RECORD_OPERATIONS: OperationDefinitions<RecordOperationContexts> = {
+  submit: [
+    {
+      name: "Store record",
+      run: async (ctx: SubmitRecordContext) => {
+        const contract = await getAdapter();
+        const receipt = await sendAndConfirm(() =>
+          contract.setData(`${RECORD_PREFIX}${ctx.recordId}`, ethers.toUtf8Bytes(JSON.stringify(ctx.record)))
+        );
+        return { txHash: receipt.hash };
+      },
+      // Empty values are skipped by the loaders, so clearing the key removes the record
+      rollback: async (ctx: SubmitRecordContext) => {
+        const contract = await getAdapter();
+        const receipt = await sendAndConfirm(() => contract.setData(`${RECORD_PREFIX}${ctx.recordId}`, "0x"));
+        return { txHash: receipt.hash };
+      }
+    },
+    {
+      name: "Index record",
+      run: async (ctx: SubmitRecordContext) => {
+        const contract = await getAdapter();
+        await indexRecords(contract, ctx.contributor, [ctx.recordId]);
+      }
+    }
+  ],
+  
+  // Created before the first adapter write, so records of observations already on-chain
+  // are never lost to a failed step; every step can be resumed without writing twice
+  submitBatch: [
+    {
+      name: "Store records",
+      run: async (ctx: SubmitBatchContext, progress: (ctx: Partial<SubmitBatchContext>) => void) => {
+        const contract = await getAdapter();
+        const stored = [...(ctx.stored || [])];
+        let txHash: string | undefined;
+        for (const { recordId, record } of ctx.records) {
+          const existing = await contract.getData(`${RECORD_PREFIX}${recordId}`);
+          if (ethers.dataLength(existing) > 0) continue;
+          const receipt = await sendAndConfirm(() =>
+            contract.setData(`${RECORD_PREFIX}${recordId}`, ethers.toUtf8Bytes(JSON.stringify(record)))
+          );
+          stored.push(recordId);
+          progress({ stored: [...stored] });
+          txHash = receipt.hash;
+        }
+        return { txHash };
+      },
+      rollback: async (ctx: SubmitBatchContext) => {
+        const contract = await getAdapter();
+        let txHash: string | undefined;
+        for (const recordId of ctx.stored || []) {
+          const receipt = await sendAndConfirm(() => contract.setData(`${RECORD_PREFIX}${recordId}`, "0x"));
+          txHash = receipt.hash;
+        }
+        return { txHash };
+      }
+    },
+    {
+      name: "Index records",
+      run: async (ctx: SubmitBatchContext) => {
+        const contract = await getAdapter();
+        await indexRecords(contract, ctx.contributor, ctx.records.map(({ recordId }) => recordId));
+      }
+    }
+  ],
+  
+  moderate: [
+    {
+      name: "Submit decision",
+      run: async (ctx: ModerateRecordContext) => {
+        const lightPollution = await getLightPollutionClientWithSigner();
+        const receipt = ctx.decision === "approve"
+          ? await lightPollution.approveObservation(ctx.observationId)
+          : await lightPollution.rejectObservation(ctx.observationId, ctx.reason || "");
+        return { txHash: receipt.hash };
+      }
+    },
+    {
+      // The contract is authoritative; the stored record only mirrors a final decision
+      name: "Update status",
+      run: async (ctx: ModerateRecordContext) => {
+        const lightPollution = await getLightPollutionClientWithSigner();
+        const { status } = await lightPollution.getModeration(ctx.observationId);
+        if (status === "pending") return;
+        
+        const contract = await getAdapter();
+        const recordBytes = await contract.getData(`${RECORD_PREFIX}${ctx.recordId}`);
+        if (ethers.dataLength(recordBytes) === 0) {
+          throw new Error("Record not found");
+        }
+        
+        // Rewrites go out at the current schema version; garbage is refused rather than re-signed
+        const recordData = readStoredRecord(recordBytes);
+        const receipt = await sendAndConfirm(() =>
+          contract.setData(
+            `${RECORD_PREFIX}${ctx.recordId}`,
+            ethers.toUtf8Bytes(JSON.stringify({ ...recordData, status }))
+          )
+        );
+        return { txHash: receipt.hash };
+      }
+    }
+  ]
+};
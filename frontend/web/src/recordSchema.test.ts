@@ -0,0 +1,214 @@
+// recordSchema.test.ts
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import {
+  LightPollutionRecord,
+  migrateRecord,
+  parseStoredRecord,
+  readStoredRecord,
+  RECORD_SCHEMA_VERSION,
+  validateRecord,
+  verifyProvenance
+} from "./recordSchema";
+
+const CONTRIBUTOR = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const OTHER = "0x0000000000000000000000000000000000000bad";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const encode = (value: unknown) => ethers.toUtf8Bytes(JSON.stringify(value));
+
+// The original Add Data modal stored its whole form base64-encoded behind an FHE- prefix
+const legacyBlob = (form: Record<string, unknown>) => `FHE-${btoa(JSON.stringify(form))}`;
+
+const currentRecord = (overrides: Record<string, unknown> = {}) => ({
+  version: RECORD_SCHEMA_VERSION,
+  data: `0x${"11".repeat(32)}`,
+  observationId: 7,
+  txHash: TX_HASH,
+  timestamp: 1_700_000_000,
+  contributor: CONTRIBUTOR,
+  location: "u4pru",
+  status: "pending",
+  instrument: "SQM-L",
+  conditions: ["Haze"],
+  qualityFlags: ["moonlit"],
+  notes: "Clear after midnight",
+  ...overrides
+});
+
+describe("migrateRecord", () => {
+  it("upgrades an unversioned record to the current version", () => {
+    const migrated = migrateRecord({
+      data: legacyBlob({ brightness: "21.3" }),
+      timestamp: 1_600_000_000,
+      contributor: CONTRIBUTOR,
+      location: "Tucson"
+    });
+
+    expect(migrated.version).toBe(RECORD_SCHEMA_VERSION);
+    expect(migrated.status).toBe("pending");
+    expect(validateRecord(migrated)).toEqual([]);
+  });
+
+  it("keeps the status of records that already had one", () => {
+    const migrated = migrateRecord({ version: 2, data: "FHE-", status: "verified" });
+    expect(migrated.status).toBe("verified");
+  });
+
+  it("recovers notes from the legacy form blob", () => {
+    const migrated = migrateRecord({ data: legacyBlob({ notes: "Street lights off after 23:00" }) });
+    expect(migrated.notes).toBe("Street lights off after 23:00");
+  });
+
+  it("ignores blank or unreadable legacy notes", () => {
+    expect(migrateRecord({ data: legacyBlob({ notes: "   " }) }).notes).toBeUndefined();
+    expect(migrateRecord({ data: "FHE-not base64 json" }).notes).toBeUndefined();
+    expect(migrateRecord({ data: `0x${"11".repeat(32)}` }).notes).toBeUndefined();
+  });
+
+  it("leaves current records untouched", () => {
+    const record = currentRecord();
+    expect(migrateRecord(record)).toBe(record);
+  });
+});
+
+describe("validateRecord", () => {
+  it("accepts a well-formed current record", () => {
+    expect(validateRecord(currentRecord())).toEqual([]);
+  });
+
+  it("reports every invalid field", () => {
+    const errors = validateRecord(currentRecord({
+      observationId: 0,
+      txHash: "0x1234",
+      contributor: "not an address",
+      status: "approved",
+      instrument: "Telescope",
+      qualityFlags: ["cloudy"]
+    }));
+
+    expect(errors).toHaveLength(6);
+    expect(errors).toContain("observationId must be a positive integer");
+    expect(errors).toContain("contributor must be an address");
+  });
+
+  it("rejects timestamps more than a day in the future", () => {
+    const future = Math.floor(Date.now() / 1000) + 2 * 24 * 60 * 60;
+    expect(validateRecord(currentRecord({ timestamp: future }))).toEqual([
+      "timestamp must be a unix time in seconds, not in the future"
+    ]);
+  });
+
+  it("rejects overlong notes", () => {
+    expect(validateRecord(currentRecord({ notes: "x".repeat(1001) }))).toEqual([
+      "notes must be a string of at most 1000 characters"
+    ]);
+  });
+});
+
+describe("parseStoredRecord", () => {
+  it("maps a stored record to its display shape", () => {
+    const parsed = parseStoredRecord("abc", encode(currentRecord()));
+
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.record).toMatchObject({
+      id: "abc",
+      version: RECORD_SCHEMA_VERSION,
+      observationId: 7,
+      location: "u4pru",
+      conditions: ["Haze"],
+      qualityFlags: ["moonlit"],
+      notes: "Clear after midnight"
+    });
+  });
+
+  it("reports the version a record was stored at", () => {
+    const parsed = parseStoredRecord("old", encode({
+      data: legacyBlob({}),
+      timestamp: 1_600_000_000,
+      contributor: CONTRIBUTOR,
+      location: "Tucson"
+    }));
+
+    expect(parsed.ok && parsed.record.version).toBe(1);
+  });
+
+  it("quarantines records that are not JSON objects", () => {
+    for (const bytes of [ethers.toUtf8Bytes("not json"), encode([1, 2]), encode(null)]) {
+      const parsed = parseStoredRecord("bad", bytes);
+      expect(parsed.ok).toBe(false);
+    }
+  });
+
+  it("quarantines records from a newer schema", () => {
+    const parsed = parseStoredRecord("future", encode(currentRecord({ version: RECORD_SCHEMA_VERSION + 1 })));
+
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.quarantined.version).toBe(RECORD_SCHEMA_VERSION + 1);
+    expect(parsed.quarantined.errors).toEqual([`unsupported version ${RECORD_SCHEMA_VERSION + 1}`]);
+  });
+});
+
+describe("verifyProvenance", () => {
+  const bytes = encode(currentRecord());
+  const parsed = () => (parseStoredRecord("abc", bytes) as { ok: true; record: LightPollutionRecord }).record;
+
+  it("accepts records written and submitted by their contributor, in any address case", () => {
+    const checked = verifyProvenance(parsed(), bytes, {
+      writer: CONTRIBUTOR.toLowerCase(),
+      submitter: CONTRIBUTOR.toUpperCase().replace("0X", "0x")
+    });
+
+    expect(checked.ok).toBe(true);
+  });
+
+  it("quarantines records written under someone else's name", () => {
+    const checked = verifyProvenance(parsed(), bytes, { writer: OTHER, submitter: CONTRIBUTOR });
+
+    expect(checked.ok).toBe(false);
+    if (checked.ok) return;
+    expect(checked.quarantined).toMatchObject({ id: "abc", version: RECORD_SCHEMA_VERSION });
+    expect(checked.quarantined.errors).toEqual([`written by ${OTHER}, who is neither the contributor nor a verifier`]);
+    expect(JSON.parse(checked.quarantined.raw).contributor).toBe(CONTRIBUTOR);
+  });
+
+  it("accepts a verifier's rewrite of the status mirror", () => {
+    expect(verifyProvenance(parsed(), bytes, { writer: OTHER, writerIsVerifier: true, submitter: CONTRIBUTOR }).ok).toBe(true);
+  });
+
+  it("quarantines records claiming an observation someone else submitted", () => {
+    const checked = verifyProvenance(parsed(), bytes, { writer: CONTRIBUTOR, submitter: OTHER });
+
+    expect(checked.ok).toBe(false);
+    if (checked.ok) return;
+    expect(checked.quarantined.errors).toEqual([`observation 7 was submitted by ${OTHER}, not the contributor`]);
+  });
+
+  it("quarantines records pointing at an observation that does not exist", () => {
+    const checked = verifyProvenance(parsed(), bytes, { submitter: ethers.ZeroAddress });
+
+    expect(!checked.ok && checked.quarantined.errors).toEqual(["observation 7 does not exist"]);
+  });
+
+  it("only checks what is known", () => {
+    const legacy = encode(currentRecord({ observationId: undefined }));
+    const record = (parseStoredRecord("old", legacy) as { ok: true; record: LightPollutionRecord }).record;
+
+    expect(verifyProvenance(record, legacy, { submitter: OTHER }).ok).toBe(true);
+    expect(verifyProvenance(parsed(), bytes, {}).ok).toBe(true);
+  });
+});
+
+describe("readStoredRecord", () => {
+  it("returns migrated records ready to rewrite", () => {
+    expect(readStoredRecord(encode(currentRecord({ status: "verified" }))).status).toBe("verified");
+  });
+
+  it("refuses records that fail validation", () => {
+    expect(() => readStoredRecord(encode(currentRecord({ contributor: "nobody" })))).toThrow(
+      "Record failed validation: contributor must be an address"
+    );
+  });
+});
@@ -0,0 +1,240 @@
+// recordSchema.ts
+import { ethers } from "ethers";
+import { QUALITY_FLAG_BITS, QualityFlag } from "./ephemeris";
+
+export const RECORD_SCHEMA_VERSION = 5;
+
+export type RecordStatus = "pending" | "verified" | "rejected";
+const RECORD_STATUSES: RecordStatus[] = ["pending", "verified", "rejected"];
+
+export const INSTRUMENT_TYPES = ["SQM", "SQM-L", "SQM-LU", "SQM-LE", "TESS-W", "Camera", "Naked eye", "Other"];
+export const OBSERVING_CONDITIONS = ["Moon up", "Twilight", "Haze", "Fog", "Snow cover", "Dew on sensor", "Aurora"];
+
+const MAX_LOCATION_LENGTH = 200;
+const MAX_NOTES_LENGTH = 1000;
+// Allow for clock skew between contributor machines and block time
+const MAX_FUTURE_SKEW_SECONDS = 24 * 60 * 60;
+
+/** The record JSON stored under `light_pollution_<id>` at the current schema version. */
+export interface StoredRecord {
+  version: 5;
+  data: string;
+  observationId?: number;
+  txHash?: string;
+  timestamp: number;
+  contributor: string;
+  location: string;
+  status: RecordStatus;
+  // Plaintext observing metadata; the measurements themselves are encrypted on-chain
+  instrument?: string;
+  conditions?: string[];
+  qualityFlags?: QualityFlag[];
+  notes?: string;
+}
+
+export interface LightPollutionRecord {
+  id: string;
+  version: number;
+  observationId?: number;
+  encryptedBrightness: string;
+  timestamp: number;
+  location: string;
+  contributor: string;
+  status: RecordStatus;
+  instrument?: string;
+  conditions: string[];
+  qualityFlags: QualityFlag[];
+  notes?: string;
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  version?: number;
+  errors: string[];
+  raw: string;
+}
+
+export type ParsedRecord =
+  | { ok: true; record: LightPollutionRecord }
+  | { ok: false; quarantined: QuarantinedRecord };
+
+/**
+ * Migrations keyed by the version they upgrade from. Unversioned records are v1:
+ * the original `FHE-<base64>` placeholder shape, optionally with the observationId
+ * and txHash added once submissions moved to LightPollution_FHE.
+ */
+const MIGRATIONS: Record<number, (raw: Record<string, any>) => Record<string, any>> = {
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    status: raw.status ?? "pending"
+  }),
+  // v3 added optional instrument and conditions; earlier records simply lack them
+  2: (raw) => ({ ...raw, version: 3 }),
+  // v4 added the ephemeris quality flags; older readings were never checked
+  3: (raw) => ({ ...raw, version: 4 }),
+  // v5 stores notes as plaintext; the original form kept them inside the FHE-<base64> blob
+  4: (raw) => ({ ...raw, version: 5, notes: raw.notes ?? legacyNotes(raw.data) })
+};
+
+function legacyNotes(data: unknown): string | undefined {
+  if (typeof data !== "string" || !data.startsWith("FHE-")) return undefined;
+  try {
+    const form = JSON.parse(atob(data.substring(4)));
+    return typeof form?.notes === "string" && form.notes.trim() ? form.notes.substring(0, MAX_NOTES_LENGTH) : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function detectVersion(raw: Record<string, any>): number {
+  return raw.version === undefined ? 1 : raw.version;
+}
+
+export function migrateRecord(raw: Record<string, any>): Record<string, any> {
+  let current = raw;
+  let version = detectVersion(current);
+  while (version < RECORD_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from record version ${version}`);
+    }
+    current = migrate(current);
+    version = detectVersion(current);
+  }
+  return current;
+}
+
+export function validateRecord(raw: Record<string, any>): string[] {
+  const errors: string[] = [];
+  const now = Math.floor(Date.now() / 1000);
+  
+  if (raw.version !== RECORD_SCHEMA_VERSION) {
+    errors.push(`unsupported version ${raw.version}`);
+  }
+  if (typeof raw.data !== "string" || raw.data.length === 0 || raw.data.length > 4096) {
+    errors.push("data must be a non-empty string");
+  }
+  if (raw.observationId !== undefined && !(Number.isInteger(raw.observationId) && raw.observationId > 0)) {
+    errors.push("observationId must be a positive integer");
+  }
+  if (raw.txHash !== undefined && !(typeof raw.txHash === "string" && ethers.isHexString(raw.txHash, 32))) {
+    errors.push("txHash must be a 32-byte hex string");
+  }
+  if (!Number.isInteger(raw.timestamp) || raw.timestamp <= 0 || raw.timestamp > now + MAX_FUTURE_SKEW_SECONDS) {
+    errors.push("timestamp must be a unix time in seconds, not in the future");
+  }
+  if (typeof raw.contributor !== "string" || !ethers.isAddress(raw.contributor)) {
+    errors.push("contributor must be an address");
+  }
+  if (typeof raw.location !== "string" || raw.location.length > MAX_LOCATION_LENGTH) {
+    errors.push(`location must be a string of at most ${MAX_LOCATION_LENGTH} characters`);
+  }
+  if (!RECORD_STATUSES.includes(raw.status)) {
+    errors.push(`status must be one of ${RECORD_STATUSES.join(", ")}`);
+  }
+  if (raw.instrument !== undefined && !INSTRUMENT_TYPES.includes(raw.instrument)) {
+    errors.push(`instrument must be one of ${INSTRUMENT_TYPES.join(", ")}`);
+  }
+  if (raw.conditions !== undefined &&
+      !(Array.isArray(raw.conditions) && raw.conditions.every((c: unknown) => OBSERVING_CONDITIONS.includes(c as string)))) {
+    errors.push("conditions must be a list of known observing conditions");
+  }
+  if (raw.qualityFlags !== undefined &&
+      !(Array.isArray(raw.qualityFlags) && raw.qualityFlags.every((f: unknown) => (f as string) in QUALITY_FLAG_BITS))) {
+    errors.push("qualityFlags must be a list of known quality flags");
+  }
+  if (raw.notes !== undefined && !(typeof raw.notes === "string" && raw.notes.length <= MAX_NOTES_LENGTH)) {
+    errors.push(`notes must be a string of at most ${MAX_NOTES_LENGTH} characters`);
+  }
+  return errors;
+}
+
+export function parseStoredRecord(id: string, recordBytes: ethers.BytesLike): ParsedRecord {
+  let raw = "";
+  try {
+    raw = ethers.toUtf8String(recordBytes);
+    const parsed = JSON.parse(raw);
+    if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return { ok: false, quarantined: { id, errors: ["record is not a JSON object"], raw } };
+    }
+    
+    const migrated = migrateRecord(parsed);
+    const errors = validateRecord(migrated);
+    if (errors.length > 0) {
+      return { ok: false, quarantined: { id, version: detectVersion(parsed), errors, raw } };
+    }
+    
+    const stored = migrated as StoredRecord;
+    return {
+      ok: true,
+      record: {
+        id,
+        version: detectVersion(parsed),
+        observationId: stored.observationId,
+        encryptedBrightness: stored.data,
+        timestamp: stored.timestamp,
+        location: stored.location,
+        contributor: stored.contributor,
+        status: stored.status,
+        instrument: stored.instrument,
+        conditions: stored.conditions || [],
+        qualityFlags: stored.qualityFlags || [],
+        notes: stored.notes
+      }
+    };
+  } catch (e: any) {
+    return { ok: false, quarantined: { id, errors: [e.message || "unreadable record"], raw } };
+  }
+}
+
+/**
+ * Who actually wrote a record and submitted its observation. The adapter key space is
+ * shared, so a record's own `contributor` field proves nothing by itself.
+ */
+export interface RecordProvenance {
+  // Sender of the write that produced the stored bytes; unknown when read by key
+  writer?: string;
+  // Verifiers rewrite the status mirror of records that are not theirs
+  writerIsVerifier?: boolean;
+  // Submitter of `observationId` on LightPollution_FHE; the zero address if it does not exist
+  submitter?: string;
+}
+
+export function verifyProvenance(
+  record: LightPollutionRecord,
+  recordBytes: ethers.BytesLike,
+  provenance: RecordProvenance
+): ParsedRecord {
+  const errors: string[] = [];
+  const contributor = record.contributor.toLowerCase();
+  const { writer, writerIsVerifier, submitter } = provenance;
+  
+  if (writer !== undefined && writer.toLowerCase() !== contributor && !writerIsVerifier) {
+    errors.push(`written by ${writer}, who is neither the contributor nor a verifier`);
+  }
+  if (record.observationId !== undefined && submitter !== undefined) {
+    if (submitter === ethers.ZeroAddress) {
+      errors.push(`observation ${record.observationId} does not exist`);
+    } else if (submitter.toLowerCase() !== contributor) {
+      errors.push(`observation ${record.observationId} was submitted by ${submitter}, not the contributor`);
+    }
+  }
+  if (errors.length > 0) {
+    return {
+      ok: false,
+      quarantined: { id: record.id, version: record.version, errors, raw: ethers.toUtf8String(recordBytes) }
+    };
+  }
+  return { ok: true, record };
+}
+
+/** Migrates and validates stored bytes for a rewrite, throwing if they cannot be trusted. */
+export function readStoredRecord(recordBytes: ethers.BytesLike): StoredRecord {
+  const migrated = migrateRecord(JSON.parse(ethers.toUtf8String(recordBytes)));
+  const errors = validateRecord(migrated);
+  if (errors.length > 0) {
+    throw new Error(`Record failed validation: ${errors.join("; ")}`);
+  }
+  return migrated as StoredRecord;
+}
@@ -0,0 +1,104 @@
+// sqmImport.test.ts
+import { describe, expect, it } from "vitest";
+import { cleanReadings, nightlyMedian, parseSqmFile, readSqmHeader } from "./sqmImport";
+
+const LATITUDE = 46.49;
+const LONGITUDE = -80.99;
+
+const header = [
+  "# Definition of the community standard for skyglow observations 1.0",
+  "# URL: http://www.darksky.org/measurements",
+  "# Number of header lines: 35",
+  "# This data is released under the following license: ODbL 1.0 http://opendatacommons.org/licenses/odbl/summary/",
+  "# Device type: SQM-LU",
+  "# Instrument ID: Backyard-1",
+  "# Data supplier: Example Astronomy Club",
+  "# Location name: Sudbury, Ontario",
+  `# Position (lat, lon, elev(m)): ${LATITUDE}, ${LONGITUDE}, 270`,
+  "# Local timezone: EST",
+  "# END OF HEADER",
+  "# UTC Date & Time, Local Date & Time, Temperature, Counts, Frequency, MSAS",
+  "# YYYY-MM-DDTHH:mm:ss.fff;YYYY-MM-DDTHH:mm:ss.fff;Celsius;number;Hz;mag/arcsec^2"
+];
+
+// Around the new moon of 11 January 2024, local time five hours behind UTC
+const readings = [
+  "2024-01-10T18:00:00.000;2024-01-10T13:00:00.000;-5.0;0;0;0.00",
+  "2024-01-10T22:00:00.000;2024-01-10T17:00:00.000;-8.0;120;1200;17.90",
+  "2024-01-11T06:00:00.000;2024-01-11T01:00:00.000;-12.5;15;1.5;21.40",
+  "2024-01-11T04:00:00.000;2024-01-10T23:00:00.000;-11.0;15;1.5;21.20",
+  "2024-01-11T05:00:00.000;2024-01-11T00:00:00.000;-12.0;15;1.5;21.30",
+  "2024-01-12T05:00:00.000;2024-01-12T00:00:00.000;-15.0;15;1.5;21.50",
+  "not a reading"
+];
+
+const file = [...header, ...readings].join("\r\n");
+
+describe("readSqmHeader", () => {
+  it("reads the device and site from the header", () => {
+    expect(readSqmHeader(file)).toEqual({
+      deviceType: "SQM-LU",
+      instrumentId: "Backyard-1",
+      locationName: "Sudbury, Ontario",
+      latitude: LATITUDE,
+      longitude: LONGITUDE
+    });
+  });
+
+  it("rejects files in other formats", () => {
+    expect(() => readSqmHeader("time,msas\n1,21.3")).toThrow("Not an IDA/NSBM skyglow data file");
+  });
+
+  it("rejects headers without a position", () => {
+    const noPosition = header.filter(l => !l.startsWith("# Position")).join("\n");
+    expect(() => readSqmHeader(noPosition)).toThrow("File header has no usable Position line");
+  });
+});
+
+describe("parseSqmFile", () => {
+  const parsed = parseSqmFile(file, LATITUDE, LONGITUDE);
+
+  it("skips saturated and unreadable lines", () => {
+    expect(parsed.skippedLines).toBe(2);
+  });
+
+  it("groups readings by the local evening they started on", () => {
+    expect(parsed.nights.map(n => n.night)).toEqual(["2024-01-10", "2024-01-11"]);
+    expect(parsed.nights[0].readings.map(r => r.localTime)).toEqual([
+      "2024-01-10T17:00:00.000",
+      "2024-01-10T23:00:00.000",
+      "2024-01-11T00:00:00.000",
+      "2024-01-11T01:00:00.000"
+    ]);
+  });
+
+  it("reads sky quality and temperature in physical units", () => {
+    const reading = parsed.nights[0].readings[1];
+    expect(reading.timestamp).toBe(Date.parse("2024-01-11T04:00:00Z") / 1000);
+    expect(reading.skyQuality).toBe(21.2);
+    expect(reading.temperature).toBe(-11);
+  });
+
+  it("blocks readings taken in twilight", () => {
+    const dusk = parsed.nights[0].readings[0];
+    expect(dusk.flags).toContain("twilight");
+    expect(dusk.blocked).toBe(true);
+  });
+});
+
+describe("nightly summaries", () => {
+  const [first, second] = parseSqmFile(file, LATITUDE, LONGITUDE).nights;
+
+  it("keeps only dark, moonless readings", () => {
+    expect(cleanReadings(first).map(r => r.skyQuality)).toEqual([21.2, 21.3, 21.4]);
+  });
+
+  it("picks the median clean reading", () => {
+    expect(nightlyMedian(first)?.skyQuality).toBe(21.3);
+    expect(nightlyMedian(second)?.skyQuality).toBe(21.5);
+  });
+
+  it("has no median for a night without clean readings", () => {
+    expect(nightlyMedian({ night: "2024-01-10", readings: first.readings.slice(0, 1) })).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// sqmImport.ts
+// Parser for the IDA/NSBM community standard skyglow format written by Unihedron
+// SQM-LU/SQM-LE data loggers (Unihedron Device Manager and UDM-compatible tools).
+import { assessSkyContext, computeSkyContext, QualityFlag } from "./ephemeris";
+import { SQM_RANGE } from "./fhe";
+
+export interface SqmFileHeader {
+  deviceType: string;
+  instrumentId: string;
+  locationName: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface SqmReading {
+  timestamp: number;          // unix seconds, UTC
+  localTime: string;          // as written by the logger, used to group nights
+  skyQuality: number;         // mag/arcsec²
+  temperature?: number;
+  sunAltitude: number;
+  moonAltitude: number;
+  moonIllumination: number;
+  flags: QualityFlag[];
+  blocked: boolean;
+}
+
+export interface SqmNight {
+  night: string;              // local date the night started on, YYYY-MM-DD
+  readings: SqmReading[];
+}
+
+export interface SqmImport {
+  header: SqmFileHeader;
+  nights: SqmNight[];
+  skippedLines: number;
+}
+
+function headerValue(lines: string[], label: string): string {
+  const prefix = `# ${label}:`.toLowerCase();
+  const line = lines.find(l => l.toLowerCase().startsWith(prefix));
+  return line ? line.substring(prefix.length).trim() : "";
+}
+
+function parseHeader(lines: string[]): SqmFileHeader {
+  // e.g. "# Position (lat, lon, elev(m)): 43.6532, -79.3832, 76"
+  const position = lines.find(l => l.toLowerCase().startsWith("# position"));
+  const coordinates = position ? position.substring(position.indexOf("):") + 2).split(",").map(v => parseFloat(v)) : [];
+  const [latitude, longitude] = coordinates;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new Error("File header has no usable Position line");
+  }
+
+  return {
+    deviceType: headerValue(lines, "Device type"),
+    instrumentId: headerValue(lines, "Instrument ID"),
+    locationName: headerValue(lines, "Location name"),
+    latitude,
+    longitude
+  };
+}
+
+// The column list is the first header line naming the UTC timestamp column
+function findColumns(lines: string[]) {
+  const columnLine = lines.find(l => /^#\s*UTC Date & Time/i.test(l));
+  const columns = columnLine ? columnLine.replace(/^#\s*/, "").split(",").map(c => c.trim().toLowerCase()) : [];
+  const find = (name: string, fallback: number) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? index : fallback;
+  };
+  return {
+    utc: find("utc date & time", 0),
+    local: find("local date & time", 1),
+    temperature: find("temperature", 2),
+    // MSAS is the last column in every published variant of the format
+    msas: find("msas", -1)
+  };
+}
+
+// Readings before local noon belong to the previous evening's night
+function nightOf(localTime: string): string {
+  const local = new Date(`${localTime.substring(0, 19)}Z`);
+  return new Date(local.getTime() - 12 * 60 * 60 * 1000).toISOString().substring(0, 10);
+}
+
+function headerLinesOf(lines: string[]): string[] {
+  const headerLines = lines.filter(l => l.startsWith("#"));
+  if (!headerLines.some(l => /community standard for skyglow/i.test(l))) {
+    throw new Error("Not an IDA/NSBM skyglow data file");
+  }
+  return headerLines;
+}
+
+export function readSqmHeader(text: string): SqmFileHeader {
+  return parseHeader(headerLinesOf(text.split(/\r?\n/)));
+}
+
+/**
+ * Parses a logger file, computing sky context at the given point. Pass the
+ * coarsened cell centre so the exact site is only ever used to pick the cell.
+ */
+export function parseSqmFile(text: string, latitude: number, longitude: number): SqmImport {
+  const lines = text.split(/\r?\n/);
+  const headerLines = headerLinesOf(lines);
+  const header = parseHeader(headerLines);
+  const columns = findColumns(headerLines);
+
+  const byNight = new Map<string, SqmReading[]>();
+  let skippedLines = 0;
+  for (const line of lines) {
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    const fields = line.split(";").map(f => f.trim());
+    const msas = parseFloat(fields[columns.msas >= 0 ? columns.msas : fields.length - 1]);
+    const timestamp = Date.parse(`${fields[columns.utc]}Z`) / 1000;
+    const localTime = fields[columns.local] || "";
+    // Loggers write 0 or out-of-range values when saturated in daylight
+    if (!Number.isFinite(timestamp) || !localTime || !(msas >= SQM_RANGE.min && msas <= SQM_RANGE.max)) {
+      skippedLines++;
+      continue;
+    }
+
+    const context = computeSkyContext(latitude, longitude, timestamp);
+    const assessment = assessSkyContext(context);
+    const temperature = parseFloat(fields[columns.temperature]);
+    const reading: SqmReading = {
+      timestamp,
+      localTime,
+      skyQuality: msas,
+      temperature: Number.isFinite(temperature) ? temperature : undefined,
+      ...context,
+      flags: assessment.flags,
+      blocked: assessment.blocked
+    };
+
+    const night = nightOf(localTime);
+    if (!byNight.has(night)) byNight.set(night, []);
+    byNight.get(night)!.push(reading);
+  }
+
+  const nights = Array.from(byNight.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([night, readings]) => ({ night, readings: readings.sort((a, b) => a.timestamp - b.timestamp) }));
+  return { header, nights, skippedLines };
+}
+
+/** Readings fit for the map: astronomically dark and free of moonlight. */
+export function cleanReadings(night: SqmNight): SqmReading[] {
+  return night.readings.filter(r => !r.blocked && r.flags.length === 0);
+}
+
+/** The clean reading closest to the night's median sky quality, or null if none. */
+export function nightlyMedian(night: SqmNight): SqmReading | null {
+  const clean = cleanReadings(night);
+  if (clean.length === 0) return null;
+  const sorted = [...clean].sort((a, b) => a.skyQuality - b.skyQuality);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
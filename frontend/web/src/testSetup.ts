@@ -0,0 +1,4 @@
+// testSetup.ts
+// fhe.ts re-exports the relayer SDK that index.html loads as a browser global;
+// modules importing it only need the global to exist outside the browser.
+(globalThis as any).window = { relayerSDK: {} };
@@ -0,0 +1,115 @@
+// thresholdAlerts.ts
+import { useCallback, useEffect, useState } from "react";
+import { config, getLightPollutionClientReadOnly } from "./contract";
+import type { ThresholdAlert, ThresholdEvaluatedEvent } from "./contract";
+
+const STORAGE_KEY = "light_pollution_threshold_alerts_seen";
+
+// Evaluations only happen after several new samples, so a slow poll is enough
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Last block scanned for ThresholdEvaluated events, per owner account
+type SeenBlocks = Record<string, number>;
+
+function loadSeenBlocks(): SeenBlocks {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error loading threshold alert state:", e);
+    return {};
+  }
+}
+
+function saveSeenBlock(account: string, blockNumber: number) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadSeenBlocks(), [account]: blockNumber }));
+  } catch (e) {
+    console.error("Error saving threshold alert state:", e);
+  }
+}
+
+/** Asks for browser notification permission; call from a click handler. */
+export function requestNotificationPermission() {
+  if (typeof Notification !== "undefined" && Notification.permission === "default") {
+    Notification.requestPermission().catch(e => console.error("Error requesting notification permission:", e));
+  }
+}
+
+function notifyBreach(event: ThresholdEvaluatedEvent, language: "en" | "zh") {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  new Notification(language === "en" ? "Sky quality alert" : "天空质量警报", {
+    body: language === "en"
+      ? `The average sky quality in ${event.regionCode} fell below your threshold (n=${event.sampleCount})`
+      : `${event.regionCode}的平均天空质量低于您设定的阈值 (n=${event.sampleCount})`,
+    tag: `threshold-${event.regionCode}`
+  });
+}
+
+export function useThresholdAlerts(account: string, language: "en" | "zh") {
+  const [ownedRegions, setOwnedRegions] = useState<string[]>([]);
+  const [alerts, setAlerts] = useState<Record<string, ThresholdAlert>>({});
+  const [breaches, setBreaches] = useState<ThresholdEvaluatedEvent[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const refresh = useCallback(() => setRefreshKey(key => key + 1), []);
+  const dismiss = useCallback(() => setBreaches([]), []);
+
+  useEffect(() => {
+    setOwnedRegions([]);
+    setAlerts({});
+    setBreaches([]);
+  }, [account]);
+
+  useEffect(() => {
+    // Owned regions and evaluations are both replayed from logs
+    if (!account || !config.deploymentBlock) return;
+
+    let cancelled = false;
+    const key = account.toLowerCase();
+    const poll = async () => {
+      try {
+        const client = await getLightPollutionClientReadOnly();
+        if (!client || cancelled) return;
+
+        const regions = await client.getOwnedRegions(account);
+        const next: Record<string, ThresholdAlert> = {};
+        for (const regionCode of regions) {
+          next[regionCode] = await client.getThresholdAlert(regionCode);
+        }
+
+        const seen = loadSeenBlocks()[key];
+        const { events, scannedTo } = regions.length > 0
+          ? await client.getThresholdEvaluations(regions, seen !== undefined ? seen + 1 : undefined)
+          : { events: [], scannedTo: seen };
+        if (cancelled) return;
+
+        setOwnedRegions(regions);
+        setAlerts(next);
+        // A lagging RPC node can report an older head; never move the cursor back
+        if (scannedTo !== undefined) {
+          saveSeenBlock(key, Math.max(scannedTo, seen ?? scannedTo));
+        }
+        // The first poll for an account only records where to start; the badges show current state
+        const fresh = seen === undefined ? [] : events.filter(e => e.breached);
+        if (fresh.length > 0) {
+          fresh.forEach(event => notifyBreach(event, language));
+          setBreaches(prev => [...prev, ...fresh]);
+        }
+      } catch (e) {
+        console.error("Error polling threshold alerts:", e);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [account, language, refreshKey]);
+
+  const breachedRegions = ownedRegions.filter(regionCode => alerts[regionCode]?.breached);
+
+  return { ownedRegions, alerts, breaches, breachedRegions, refresh, dismiss };
+}
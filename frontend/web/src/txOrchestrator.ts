@@ -0,0 +1,232 @@
+// txOrchestrator.ts
+import { useCallback, useState } from "react";
+import { ethers } from "ethers";
+
+const STORAGE_KEY = "light_pollution_operations";
+
+export type StepState = "pending" | "done" | "failed" | "rolledBack";
+export type OperationState = "running" | "completed" | "failed" | "rolledBack";
+
+export interface OperationStepRecord {
+  name: string;
+  state: StepState;
+  txHash?: string;
+  error?: string;
+  // A failed step that reported progress has done part of its work and can be rolled back
+  partial?: boolean;
+}
+
+export interface OperationRecord<C = unknown, K extends string = string> {
+  id: string;
+  kind: K;
+  context: C;
+  steps: OperationStepRecord[];
+  state: OperationState;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+export interface StepResult<C> {
+  context?: Partial<C>;
+  txHash?: string;
+}
+
+export interface StepDefinition<C = unknown> {
+  name: string;
+  // `progress` persists context as the step goes, so a failure part-way is not forgotten
+  run: (context: C, progress: (context: Partial<C>) => void) => Promise<StepResult<C> | void>;
+  // Undo a completed or partially completed step; steps without one are left in place on rollback
+  rollback?: (context: C) => Promise<StepResult<C> | void>;
+}
+
+/** The steps of each operation kind in `M`, typed by the context that kind carries. */
+export type OperationDefinitions<M> = { [K in keyof M & string]: StepDefinition<M[K]>[] };
+
+/** A stored operation of any kind in `M`; narrowing on `kind` types its context. */
+export type OperationOf<M> = { [K in keyof M & string]: OperationRecord<M[K], K> }[keyof M & string];
+
+export function describeTxError(e: any): string {
+  if (e?.code === "ACTION_REJECTED") {
+    return "Transaction rejected by user";
+  }
+  if (e?.code === "CALL_EXCEPTION") {
+    return `Transaction reverted: ${e.reason || e.revert?.name || e.shortMessage || "unknown reason"}`;
+  }
+  return e?.shortMessage || e?.message || "Unknown error";
+}
+
+/**
+ * Sends a transaction and resolves only once it is mined with a success status,
+ * so callers never report success for a transaction that later reverts.
+ */
+export async function sendAndConfirm(
+  send: () => Promise<ethers.ContractTransactionResponse>,
+  confirmations: number = 1
+): Promise<ethers.TransactionReceipt> {
+  const tx = await send();
+  const receipt = await tx.wait(confirmations);
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was dropped`);
+  }
+  if (receipt.status !== 1) {
+    throw new Error(`Transaction ${tx.hash} reverted`);
+  }
+  return receipt;
+}
+
+function loadOperations<M>(): Record<string, OperationOf<M>> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const operations: Record<string, OperationOf<M>> = raw ? JSON.parse(raw) : {};
+    // Anything still running belonged to a closed page and can only be resumed now
+    for (const op of Object.values(operations)) {
+      if (op.state === "running") {
+        op.state = "failed";
+        op.error = op.error || "Interrupted before completion";
+      }
+    }
+    return operations;
+  } catch (e) {
+    console.error("Error loading operations:", e);
+    return {};
+  }
+}
+
+function saveOperations(operations: Record<string, OperationRecord>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(operations));
+  } catch (e) {
+    console.error("Error saving operations:", e);
+  }
+}
+
+export function useOperations<M extends Record<keyof M, object>>(definitions: OperationDefinitions<M>) {
+  const [operations, setOperations] = useState<Record<string, OperationOf<M>>>(() => loadOperations<M>());
+
+  // Each kind's steps only ever receive that kind's context, so the runner can handle them alike
+  const stepsOf = useCallback((kind: string): StepDefinition<object>[] | undefined =>
+    (definitions as unknown as Record<string, StepDefinition<object>[] | undefined>)[kind], [definitions]);
+
+  const save = useCallback((op: OperationRecord<object>) => {
+    const snapshot = { ...op, steps: op.steps.map(step => ({ ...step })), updatedAt: Date.now() } as OperationOf<M>;
+    setOperations(prev => {
+      const next = { ...prev, [op.id]: snapshot };
+      saveOperations(next);
+      return next;
+    });
+  }, []);
+
+  const execute = useCallback(async (op: OperationRecord<object>): Promise<OperationRecord<object>> => {
+    const steps = stepsOf(op.kind);
+    if (!steps) {
+      throw new Error(`Unknown operation: ${op.kind}`);
+    }
+    
+    op.state = "running";
+    op.error = undefined;
+    save(op);
+    
+    for (let i = 0; i < steps.length; i++) {
+      const record = op.steps[i];
+      if (record.state === "done") continue;
+      
+      const progress = (context: object) => {
+        op.context = { ...op.context, ...context };
+        record.partial = true;
+        save(op);
+      };
+      try {
+        const result = await steps[i].run(op.context, progress);
+        if (result?.context) op.context = { ...op.context, ...result.context };
+        record.state = "done";
+        record.txHash = result?.txHash;
+        record.error = undefined;
+        record.partial = undefined;
+        save(op);
+      } catch (e: any) {
+        record.state = "failed";
+        record.error = describeTxError(e);
+        op.state = "failed";
+        op.error = `${record.name}: ${record.error}`;
+        save(op);
+        throw new Error(record.error);
+      }
+    }
+    
+    op.state = "completed";
+    save(op);
+    return op;
+  }, [stepsOf, save]);
+
+  const start = useCallback(async <K extends keyof M & string>(kind: K, context: M[K]) => {
+    const steps = stepsOf(kind);
+    if (!steps) {
+      throw new Error(`Unknown operation: ${kind}`);
+    }
+    const now = Date.now();
+    const op: OperationRecord<M[K], K> = {
+      id: `${now}-${Math.random().toString(36).substring(2, 9)}`,
+      kind,
+      context,
+      steps: steps.map(step => ({ name: step.name, state: "pending" })),
+      state: "running",
+      createdAt: now,
+      updatedAt: now
+    };
+    return await execute(op) as OperationRecord<M[K], K>;
+  }, [stepsOf, execute]);
+
+  const resume = useCallback((id: string) => {
+    const op = operations[id];
+    if (!op) {
+      throw new Error(`Unknown operation: ${id}`);
+    }
+    return execute({ ...op, steps: op.steps.map(step => ({ ...step })) });
+  }, [operations, execute]);
+
+  const rollback = useCallback(async (id: string) => {
+    const stored = operations[id];
+    if (!stored) {
+      throw new Error(`Unknown operation: ${id}`);
+    }
+    const op: OperationRecord<object> = { ...stored, steps: stored.steps.map(step => ({ ...step })) };
+    const steps = stepsOf(op.kind);
+    if (!steps) {
+      throw new Error(`Unknown operation: ${op.kind}`);
+    }
+    
+    for (let i = op.steps.length - 1; i >= 0; i--) {
+      const record = op.steps[i];
+      if (!(record.state === "done" || (record.state === "failed" && record.partial)) || !steps[i].rollback) continue;
+      
+      try {
+        const result = await steps[i].rollback!(op.context);
+        record.state = "rolledBack";
+        record.txHash = result?.txHash || record.txHash;
+        record.partial = undefined;
+        save(op);
+      } catch (e: any) {
+        op.error = `Rollback of ${record.name} failed: ${describeTxError(e)}`;
+        save(op);
+        throw new Error(op.error);
+      }
+    }
+    
+    op.state = "rolledBack";
+    op.error = undefined;
+    save(op);
+    return op;
+  }, [operations, stepsOf, save]);
+
+  const dismiss = useCallback((id: string) => {
+    setOperations(prev => {
+      const next = { ...prev };
+      delete next[id];
+      saveOperations(next);
+      return next;
+    });
+  }, []);
+
+  return { operations, start, resume, rollback, dismiss };
+}
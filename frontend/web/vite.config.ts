@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -19,5 +20,10 @@ export default defineConfig({
         'import-assertions': true
       }
     }
+  },
+  test: {
+    environment: "node",
+    setupFiles: ["./src/testSetup.ts"],
+    include: ["src/**/*.test.ts"]
   }
 });
\ No newline at end of file
@@ -0,0 +1,228 @@
+// tasks/reconcileRecords.ts
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { task, types } from "hardhat/config";
+import type { Contract, Log, Signer } from "ethers";
+
+const RECORD_PREFIX = "light_pollution_";
+const LEGACY_INDEX_KEY = "light_pollution_keys";
+const CONTRIBUTORS_KEY = "light_pollution_contributors";
+
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+interface LatestEntry {
+  value: string;
+  sender: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+function isIndexKey(key: string) {
+  return key.startsWith(LEGACY_INDEX_KEY) || key.startsWith(CONTRIBUTORS_KEY);
+}
+
+function parseList(
+  bytes: string,
+  toUtf8String: (b: string) => string,
+): string[] {
+  if (bytes === "0x") return [];
+  try {
+    const list = JSON.parse(toUtf8String(bytes));
+    return Array.isArray(list)
+      ? list.filter((item: unknown) => typeof item === "string")
+      : [];
+  } catch (e) {
+    console.warn("Unparseable index value, treating as empty");
+    return [];
+  }
+}
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise<string>((resolve) =>
+    rl.question(prompt, (ans) => {
+      rl.close();
+      resolve(ans.trim());
+    }),
+  );
+}
+
+task(
+  "reconcile-records",
+  "Compares DataStored records with the key index and reports orphans and duplicates",
+)
+  .addOptionalParam(
+    "address",
+    "UniversalAdapter address (defaults to frontend config.json)",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan (defaults to config deploymentBlock)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "pageSize",
+    "Blocks per eth_getLogs request",
+    5000,
+    types.int,
+  )
+  .addFlag("fix", "Write a repaired legacy index containing every live record")
+  .setAction(async (args, hre) => {
+    const { ethers } = hre;
+    const frontendConfig = JSON.parse(
+      fs.readFileSync(path.join(FRONTEND_SRC, "config.json"), "utf8"),
+    );
+    const abiJson = JSON.parse(
+      fs.readFileSync(
+        path.join(FRONTEND_SRC, "abi", "UniversalAdapter.json"),
+        "utf8",
+      ),
+    );
+
+    const address: string = args.address || frontendConfig.contractAddress;
+    const fromBlock: number | undefined =
+      args.fromBlock ?? (frontendConfig.deploymentBlock || undefined);
+    if (fromBlock === undefined) {
+      // A page-by-page scan from genesis would take hours on a public network
+      throw new Error(
+        "No deploymentBlock in frontend config.json; pass --from-block (0 for a local node)",
+      );
+    }
+    const adapter = new ethers.Contract(
+      address,
+      abiJson.abi || abiJson,
+      ethers.provider,
+    ) as Contract;
+
+    // Latest value of every record key, rebuilt from DataStored logs
+    const latest = await ethers.provider.getBlockNumber();
+    const topic = adapter.interface.getEvent("DataStored")!.topicHash;
+    const entries = new Map<string, LatestEntry>();
+    for (let from = fromBlock; from <= latest; from += args.pageSize) {
+      const to = Math.min(from + args.pageSize - 1, latest);
+      const logs: Log[] = await ethers.provider.getLogs({
+        address,
+        topics: [topic],
+        fromBlock: from,
+        toBlock: to,
+      });
+      for (const log of logs) {
+        const parsed = adapter.interface.parseLog(log);
+        if (!parsed || !parsed.args.key.startsWith(RECORD_PREFIX)) continue;
+        entries.set(parsed.args.key, {
+          value: parsed.args.value,
+          sender: parsed.args.sender,
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+        });
+      }
+      console.log(`Scanned blocks ${from}-${to} of ${latest}`);
+    }
+
+    const liveIds = new Set<string>();
+    for (const [key, entry] of entries) {
+      if (isIndexKey(key) || entry.value === "0x") continue;
+      liveIds.add(key.substring(RECORD_PREFIX.length));
+    }
+
+    // Contributors from the legacy shared list plus everyone who wrote their own index key
+    const contributors = new Set(
+      parseList(await adapter.getData(CONTRIBUTORS_KEY), ethers.toUtf8String),
+    );
+    for (const [key, entry] of entries) {
+      const owner = key.substring(LEGACY_INDEX_KEY.length + 1);
+      if (
+        key.startsWith(`${LEGACY_INDEX_KEY}_`) &&
+        owner === entry.sender.toLowerCase()
+      ) {
+        contributors.add(owner);
+      }
+    }
+
+    // Every index the frontend reads: the legacy list plus one list per contributor
+    const indexes = new Map<string, string[]>();
+    indexes.set(
+      LEGACY_INDEX_KEY,
+      parseList(await adapter.getData(LEGACY_INDEX_KEY), ethers.toUtf8String),
+    );
+    for (const contributor of contributors) {
+      const key = `${LEGACY_INDEX_KEY}_${contributor}`;
+      indexes.set(
+        key,
+        parseList(await adapter.getData(key), ethers.toUtf8String),
+      );
+    }
+
+    const occurrences = new Map<string, string[]>();
+    for (const [key, ids] of indexes) {
+      for (const id of ids) {
+        occurrences.set(id, [...(occurrences.get(id) || []), key]);
+      }
+    }
+
+    const orphans = [...liveIds].filter((id) => !occurrences.has(id));
+    const duplicates = [...occurrences].filter(([, keys]) => keys.length > 1);
+    const dangling = [...occurrences.keys()].filter((id) => !liveIds.has(id));
+
+    console.log(`\nLive records: ${liveIds.size}`);
+    console.log(
+      `Indexed ids:  ${occurrences.size} across ${indexes.size} index key(s)`,
+    );
+    console.log(`\nOrphans (${orphans.length}):`);
+    orphans.forEach((id) => console.log(`  ${id}`));
+    console.log(`\nDuplicates (${duplicates.length}):`);
+    duplicates.forEach(([id, keys]) =>
+      console.log(`  ${id} in ${keys.join(", ")}`),
+    );
+    console.log(`\nDangling index entries (${dangling.length}):`);
+    dangling.forEach((id) => console.log(`  ${id}`));
+
+    if (!args.fix) {
+      if (orphans.length || duplicates.length || dangling.length) {
+        console.log("\nRun again with --fix to submit a repaired index.");
+      }
+      return;
+    }
+
+    // Contributor indexes belong to their owners, so repairs only touch the legacy list:
+    // keep its live ids not already indexed elsewhere, then add the orphans
+    const contributorIndexed = new Set(
+      [...indexes]
+        .filter(([key]) => key !== LEGACY_INDEX_KEY)
+        .flatMap(([, ids]) => ids),
+    );
+    const repaired = [
+      ...new Set(
+        indexes
+          .get(LEGACY_INDEX_KEY)!
+          .filter((id) => liveIds.has(id) && !contributorIndexed.has(id)),
+      ),
+      ...orphans,
+    ];
+
+    let signer: Signer;
+    const signers = await ethers.getSigners();
+    if (signers.length > 0) {
+      signer = signers[0];
+    } else {
+      const privateKey = await ask(
+        "Enter the maintainer private key (testnet only): ",
+      );
+      signer = new ethers.Wallet(privateKey, ethers.provider);
+    }
+
+    console.log(
+      `\nWriting ${repaired.length} ids to ${LEGACY_INDEX_KEY} from ${await signer.getAddress()}...`,
+    );
+    const tx = await (adapter.connect(signer) as Contract).setData(
+      LEGACY_INDEX_KEY,
+      ethers.toUtf8Bytes(JSON.stringify(repaired)),
+    );
+    const receipt = await tx.wait();
+    console.log(`Repaired index written in ${receipt.hash}`);
+  });
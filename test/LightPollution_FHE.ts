@@ -0,0 +1,726 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, Log } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+type Reading = {
+  brightness: number;
+  latitude?: number;
+  longitude?: number;
+  timestamp?: number;
+  bortle?: number;
+  nelm?: number;
+  cloudCover?: number;
+};
+
+// The contract keys a ranking by its regions in ascending region id order
+function byRegionId(regionCodes: string[]) {
+  return [...regionCodes].sort((a, b) => {
+    const idA = BigInt(ethers.id(a));
+    const idB = BigInt(ethers.id(b));
+    return idA < idB ? -1 : idA > idB ? 1 : 0;
+  });
+}
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("LightPollution_FHE");
+  const contract = (await factory.deploy()) as unknown as Contract;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("LightPollution_FHE", function () {
+  let signers: Signers;
+  let contract: Contract;
+  let contractAddress: string;
+
+  // ethers types connect() as returning a BaseContract without the ABI methods
+  function connect(signer: HardhatEthersSigner) {
+    return contract.connect(signer) as Contract;
+  }
+
+  async function submit(
+    signer: HardhatEthersSigner,
+    regionCode: string,
+    reading: Reading,
+    qualityFlags = 0,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, signer.address)
+      .add32(reading.brightness)
+      .add32(reading.latitude ?? 0)
+      .add32(reading.longitude ?? 0)
+      .add32(reading.timestamp ?? 0)
+      .add32(reading.bortle ?? 0)
+      .add32(reading.nelm ?? 0)
+      .add32(reading.cloudCover ?? 0)
+      .encrypt();
+    const tx = await connect(signer).submitEncryptedObservation(
+      ...input.handles,
+      input.inputProof,
+      regionCode,
+      qualityFlags,
+    );
+    await tx.wait();
+    return Number(await contract.observationCount());
+  }
+
+  async function submitBatch(
+    signer: HardhatEthersSigner,
+    readings: { regionCode: string; brightness: number }[],
+  ) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    for (const reading of readings) {
+      input.add32(reading.brightness);
+      for (let i = 0; i < 6; i++) input.add32(0);
+    }
+    const { handles, inputProof } = await input.encrypt();
+    const observations = readings.map((reading, i) => ({
+      brightness: handles[i * 7],
+      latitude: handles[i * 7 + 1],
+      longitude: handles[i * 7 + 2],
+      timestamp: handles[i * 7 + 3],
+      bortle: handles[i * 7 + 4],
+      nelm: handles[i * 7 + 5],
+      cloudCover: handles[i * 7 + 6],
+      regionCode: reading.regionCode,
+      qualityFlags: 0,
+    }));
+    const tx = await connect(signer).submitEncryptedObservationBatch(
+      observations,
+      inputProof,
+    );
+    return tx.wait();
+  }
+
+  async function setThreshold(
+    owner: HardhatEthersSigner,
+    regionCode: string,
+    threshold: number,
+  ) {
+    await contract.setRegionOwner(regionCode, owner.address);
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, owner.address)
+      .add32(threshold)
+      .encrypt();
+    await connect(owner).setRegionThreshold(
+      regionCode,
+      input.handles[0],
+      input.inputProof,
+    );
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      admin: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    // The encrypted paths need the fhevm mock coprocessor
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock");
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  describe("observation decryption", function () {
+    it("lets the submitter request a public reveal", async function () {
+      const id = await submit(signers.alice, "u4pru", {
+        brightness: 2150,
+        bortle: 4,
+      });
+
+      await expect(
+        connect(signers.alice).requestObservationDecryption(id),
+      ).to.emit(contract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const observation = await contract.getDecryptedObservation(id);
+      expect(observation.brightness).to.eq(2150);
+      expect(observation.bortle).to.eq(4);
+    });
+
+    it("lets only the submitter user-decrypt their own handles", async function () {
+      const id = await submit(signers.alice, "u4pru", {
+        brightness: 2150,
+        cloudCover: 40,
+      });
+      const handles = await contract.getEncryptedObservation(id);
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handles.brightness,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(2150n);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handles.cloudCover,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(40n);
+
+      for (const signer of [signers.bob, signers.admin]) {
+        await expect(
+          fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            handles.brightness,
+            contractAddress,
+            signer,
+          ),
+        ).to.be.rejectedWith("is not authorized to user decrypt");
+      }
+    });
+
+    it("rejects reveals requested by anyone else, the admin included", async function () {
+      const id = await submit(signers.alice, "u4pru", { brightness: 2150 });
+
+      await expect(
+        connect(signers.bob).requestObservationDecryption(id),
+      ).to.be.revertedWith("Only observer");
+      await expect(
+        connect(signers.admin).requestObservationDecryption(id),
+      ).to.be.revertedWith("Only observer");
+    });
+
+    it("rejects reveals of unknown observations", async function () {
+      await expect(
+        connect(signers.admin).requestObservationDecryption(1),
+      ).to.be.revertedWith("Observation not found");
+    });
+  });
+
+  describe("submitters", function () {
+    it("reports who submitted each observation, and no one for unknown ids", async function () {
+      const first = await submit(signers.alice, "u4pru", { brightness: 2150 });
+      const second = await submit(signers.bob, "u4prv", { brightness: 2000 });
+
+      expect(await contract.getSubmitters([second, first, 99])).to.deep.equal([
+        signers.bob.address,
+        signers.alice.address,
+        ethers.ZeroAddress,
+      ]);
+    });
+  });
+
+  describe("regional aggregation", function () {
+    it("keeps a separate sum and count for each region", async function () {
+      await submit(signers.alice, "u4pru", { brightness: 2000 });
+      await submit(signers.bob, "u4pru", { brightness: 2200 });
+      await submit(signers.carol, "u4pru", { brightness: 2100 });
+      for (const brightness of [1700, 1800, 1900]) {
+        await submit(signers.bob, "u4prv", { brightness });
+      }
+
+      const [regionCodes, counts] = await contract.getRegions();
+      expect([...regionCodes]).to.deep.eq(["u4pru", "u4prv"]);
+      expect(counts.map(Number)).to.deep.eq([3, 3]);
+
+      await contract.requestRegionAverageDecryption("u4pru");
+      await contract.requestRegionAverageDecryption("u4prv");
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getRegionAverage("u4pru")).average).to.eq(2100);
+      expect((await contract.getRegionAverage("u4prv")).average).to.eq(1800);
+    });
+
+    it("stores flagged observations but leaves them out of the aggregates", async function () {
+      const twilight = Number(await contract.QUALITY_TWILIGHT());
+      const moonlit = Number(await contract.QUALITY_MOONLIT());
+      for (const brightness of [2000, 2000, 2000]) {
+        await submit(signers.bob, "u4pru", { brightness });
+      }
+      await submit(signers.bob, "u4pru", { brightness: 1000 }, twilight);
+      await submit(signers.bob, "u4pru", { brightness: 1000 }, moonlit);
+      await submit(
+        signers.bob,
+        "u4prv",
+        { brightness: 1000 },
+        twilight | moonlit,
+      );
+
+      expect(await contract.observationCount()).to.eq(6);
+      expect(await contract.regionObservationCount("u4pru")).to.eq(3);
+      expect(await contract.getRegionCount()).to.eq(1);
+
+      await contract.requestRegionAverageDecryption("u4pru");
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getRegionAverage("u4pru")).average).to.eq(2000);
+    });
+
+    it("rejects unknown quality flags", async function () {
+      await expect(
+        submit(signers.bob, "u4pru", { brightness: 2000 }, 4),
+      ).to.be.revertedWith("Unknown quality flags");
+    });
+  });
+
+  describe("region averages", function () {
+    async function seedRegion(regionCode: string, brightness: number[]) {
+      await submitBatch(
+        signers.bob,
+        brightness.map((b) => ({ regionCode, brightness: b })),
+      );
+    }
+
+    it("reveals the average once the region has enough samples", async function () {
+      await seedRegion("u4pru", [2000, 2100, 2200]);
+
+      await expect(
+        connect(signers.alice).requestRegionAverageDecryption("u4pru"),
+      ).to.emit(contract, "RegionDecryptionRequested");
+      expect((await contract.getRegionAverage("u4pru")).isPending).to.eq(true);
+
+      await fhevm.awaitDecryptionOracle();
+      const average = await contract.getRegionAverage("u4pru");
+      expect(average.isRevealed).to.eq(true);
+      expect(average.isPending).to.eq(false);
+      expect(average.average).to.eq(2100);
+      expect(average.sampleCount).to.eq(3);
+    });
+
+    it("refuses to reveal fewer than MIN_REGION_SAMPLES samples", async function () {
+      await seedRegion("u4pru", [2000, 2100]);
+
+      await expect(
+        contract.requestRegionAverageDecryption("u4pru"),
+      ).to.be.revertedWith("Not enough samples");
+    });
+
+    it("refuses to reveal again without new samples", async function () {
+      await seedRegion("u4pru", [2000, 2100, 2200]);
+      await contract.requestRegionAverageDecryption("u4pru");
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        contract.requestRegionAverageDecryption("u4pru"),
+      ).to.be.revertedWith("Already revealed");
+    });
+
+    it("waits for MIN_REGION_SAMPLES new samples before revealing again", async function () {
+      await seedRegion("u4pru", [2000, 2100, 2200]);
+      await contract.requestRegionAverageDecryption("u4pru");
+      await fhevm.awaitDecryptionOracle();
+
+      await seedRegion("u4pru", [1500, 1500]);
+      await expect(
+        contract.requestRegionAverageDecryption("u4pru"),
+      ).to.be.revertedWith("Not enough new samples");
+
+      await seedRegion("u4pru", [1500]);
+      await contract.requestRegionAverageDecryption("u4pru");
+      await fhevm.awaitDecryptionOracle();
+      const average = await contract.getRegionAverage("u4pru");
+      expect(average.average).to.eq(1800);
+      expect(average.sampleCount).to.eq(6);
+    });
+
+    it("retries a pending reveal at the same sample count", async function () {
+      await seedRegion("u4pru", [2000, 2100, 2200]);
+      await contract.requestRegionAverageDecryption("u4pru");
+
+      await expect(contract.requestRegionAverageDecryption("u4pru")).to.emit(
+        contract,
+        "RegionDecryptionRequested",
+      );
+    });
+  });
+
+  describe("verifier quorum", function () {
+    beforeEach(async function () {
+      await contract.addVerifier(signers.bob.address);
+      await contract.addVerifier(signers.carol.address);
+      await contract.setVerificationQuorum(2);
+    });
+
+    it("verifies an observation once the quorum approves", async function () {
+      const id = await submit(signers.alice, "u4pru", { brightness: 2150 });
+
+      await connect(signers.bob).approveObservation(id);
+      expect((await contract.getModeration(id)).status).to.eq(0);
+
+      await expect(connect(signers.carol).approveObservation(id))
+        .to.emit(contract, "ObservationVerified")
+        .withArgs(id);
+      const moderation = await contract.getModeration(id);
+      expect(moderation.status).to.eq(1);
+      expect(moderation.approvals).to.eq(2);
+    });
+
+    it("rejects a second approval from the same verifier", async function () {
+      const id = await submit(signers.alice, "u4pru", { brightness: 2150 });
+
+      await connect(signers.bob).approveObservation(id);
+      await expect(
+        connect(signers.bob).approveObservation(id),
+      ).to.be.revertedWith("Already approved");
+    });
+
+    it("keeps a verifier from moderating their own observation", async function () {
+      const id = await submit(signers.bob, "u4pru", { brightness: 2150 });
+
+      await expect(
+        connect(signers.bob).approveObservation(id),
+      ).to.be.revertedWith("Cannot moderate own observation");
+    });
+
+    it("refuses to remove a verifier the quorum depends on", async function () {
+      await expect(
+        contract.removeVerifier(signers.bob.address),
+      ).to.be.revertedWith("Lower the quorum first");
+
+      await contract.setVerificationQuorum(1);
+      await expect(contract.removeVerifier(signers.bob.address))
+        .to.emit(contract, "VerifierRemoved")
+        .withArgs(signers.bob.address);
+      expect(await contract.verifierCount()).to.eq(1);
+    });
+
+    it("allows removing the last verifier at a quorum of one", async function () {
+      await contract.setVerificationQuorum(1);
+      await contract.removeVerifier(signers.bob.address);
+      await contract.removeVerifier(signers.carol.address);
+
+      expect(await contract.verifierCount()).to.eq(0);
+    });
+
+    it("stops counting approvals from removed verifiers", async function () {
+      await contract.addVerifier(signers.admin.address);
+      const id = await submit(signers.alice, "u4pru", { brightness: 2150 });
+
+      await connect(signers.bob).approveObservation(id);
+      await contract.removeVerifier(signers.bob.address);
+      expect((await contract.getModeration(id)).approvals).to.eq(0);
+
+      await connect(signers.carol).approveObservation(id);
+      expect((await contract.getModeration(id)).status).to.eq(0);
+
+      await expect(connect(signers.admin).approveObservation(id)).to.emit(
+        contract,
+        "ObservationVerified",
+      );
+      expect((await contract.getModeration(id)).approvals).to.eq(2);
+    });
+  });
+
+  describe("region thresholds", function () {
+    it("only lets the region owner set a threshold", async function () {
+      await contract.setRegionOwner("u4pru", signers.alice.address);
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signers.bob.address)
+        .add32(2000)
+        .encrypt();
+
+      await expect(
+        connect(signers.bob).setRegionThreshold(
+          "u4pru",
+          input.handles[0],
+          input.inputProof,
+        ),
+      ).to.be.revertedWith("Only region owner");
+    });
+
+    it("reports a breach once enough samples average below the threshold", async function () {
+      await setThreshold(signers.alice, "u4pru", 2000);
+
+      await submit(signers.bob, "u4pru", { brightness: 1800 });
+      await submit(signers.bob, "u4pru", { brightness: 1900 });
+      expect((await contract.thresholdAlerts("u4pru")).isPending).to.eq(false);
+
+      await submit(signers.bob, "u4pru", { brightness: 1850 });
+      await fhevm.awaitDecryptionOracle();
+
+      const alert = await contract.thresholdAlerts("u4pru");
+      expect(alert.isEvaluated).to.eq(true);
+      expect(alert.isPending).to.eq(false);
+      expect(alert.breached).to.eq(true);
+      expect(alert.sampleCount).to.eq(3);
+    });
+
+    it("clears the alert when the average is above the threshold", async function () {
+      await setThreshold(signers.alice, "u4pru", 2000);
+
+      await submitBatch(signers.bob, [
+        { regionCode: "u4pru", brightness: 2100 },
+        { regionCode: "u4pru", brightness: 2150 },
+        { regionCode: "u4pru", brightness: 2050 },
+      ]);
+      await fhevm.awaitDecryptionOracle();
+
+      const alert = await contract.thresholdAlerts("u4pru");
+      expect(alert.isEvaluated).to.eq(true);
+      expect(alert.breached).to.eq(false);
+    });
+
+    it("waits for enough new samples before evaluating again", async function () {
+      await setThreshold(signers.alice, "u4pru", 2000);
+      for (const brightness of [2100, 2150, 2050]) {
+        await submit(signers.bob, "u4pru", { brightness });
+      }
+      await fhevm.awaitDecryptionOracle();
+
+      await submit(signers.bob, "u4pru", { brightness: 1500 });
+      await submit(signers.bob, "u4pru", { brightness: 1500 });
+      let alert = await contract.thresholdAlerts("u4pru");
+      expect(alert.requestedSampleCount).to.eq(3);
+      expect(alert.isPending).to.eq(false);
+
+      await submit(signers.bob, "u4pru", { brightness: 1500 });
+      alert = await contract.thresholdAlerts("u4pru");
+      expect(alert.requestedSampleCount).to.eq(6);
+      expect(alert.isPending).to.eq(true);
+    });
+
+    it("fits a full batch with a threshold check due on every reading in the HCU limits", async function () {
+      const regionCodes = Array.from(
+        { length: Number(await contract.MAX_BATCH_SIZE()) },
+        (_, i) => `u4pr${i}`,
+      );
+      for (const regionCode of regionCodes) {
+        await setThreshold(signers.alice, regionCode, 2000);
+        await submit(signers.bob, regionCode, { brightness: 2100 });
+        await submit(signers.bob, regionCode, { brightness: 2100 });
+      }
+
+      const receipt = await submitBatch(
+        signers.bob,
+        regionCodes.map((regionCode) => ({ regionCode, brightness: 1500 })),
+      );
+      const requested = receipt!.logs.filter(
+        (log: Log) =>
+          contract.interface.parseLog(log)?.name ===
+          "ThresholdEvaluationRequested",
+      );
+      expect(requested.length).to.eq(regionCodes.length);
+    });
+  });
+
+  describe("year-over-year trends", function () {
+    // Mid-year dates, clear of the March year boundary used by the contract
+    const midYear = (year: number) => Date.UTC(year, 6, 1) / 1000;
+    // Block time only moves forward, so each test starts in the year after the last one
+    let fromYear: number;
+    let toYear: number;
+
+    beforeEach(async function () {
+      fromYear = new Date((await time.latest()) * 1000).getUTCFullYear() + 1;
+      toYear = fromYear + 1;
+    });
+
+    async function submitYear(year: number, brightness: number[]) {
+      await time.setNextBlockTimestamp(midYear(year));
+      await submitBatch(
+        signers.bob,
+        brightness.map((b) => ({ regionCode: "u4pru", brightness: b })),
+      );
+    }
+
+    it("reveals only the direction and size of the change", async function () {
+      await submitYear(fromYear, [2000, 2010, 1990, 2000, 2000]);
+      await submitYear(toYear, [2100, 2110, 2090, 2100, 2100]);
+
+      await connect(signers.alice).requestTrendDecryption(
+        "u4pru",
+        fromYear,
+        toYear,
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const trend = await contract.getRegionTrend("u4pru", fromYear, toYear);
+      expect(trend.isRevealed).to.eq(true);
+      expect(trend.darker).to.eq(true);
+      expect(trend.change).to.eq(100);
+      expect(trend.fromSamples).to.eq(5);
+      expect(trend.toSamples).to.eq(5);
+    });
+
+    it("reports a brightening sky as not darker", async function () {
+      await submitYear(fromYear, [2100, 2100, 2100, 2100, 2100]);
+      await submitYear(toYear, [2040, 2040, 2040, 2040, 2040]);
+
+      await connect(signers.alice).requestTrendDecryption(
+        "u4pru",
+        fromYear,
+        toYear,
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const trend = await contract.getRegionTrend("u4pru", fromYear, toYear);
+      expect(trend.darker).to.eq(false);
+      expect(trend.change).to.eq(60);
+    });
+
+    it("needs enough samples in both years", async function () {
+      await submitYear(fromYear, [2000, 2000, 2000, 2000, 2000]);
+      await submitYear(toYear, [2100, 2100, 2100, 2100]);
+
+      await expect(
+        contract.requestTrendDecryption("u4pru", fromYear, toYear),
+      ).to.be.revertedWith("Not enough samples");
+    });
+
+    it("waits for enough new samples before revealing again", async function () {
+      await submitYear(fromYear, [2000, 2000, 2000, 2000, 2000]);
+      await submitYear(toYear, [2100, 2100, 2100, 2100, 2100]);
+      await contract.requestTrendDecryption("u4pru", fromYear, toYear);
+
+      await submit(signers.bob, "u4pru", { brightness: 2100 });
+      await expect(
+        contract.requestTrendDecryption("u4pru", fromYear, toYear),
+      ).to.be.revertedWith("Not enough new samples");
+    });
+  });
+
+  describe("darkest skies ranking", function () {
+    async function seedRegion(regionCode: string, brightness: number) {
+      await submitBatch(
+        signers.bob,
+        [brightness, brightness, brightness].map((b) => ({
+          regionCode,
+          brightness: b,
+        })),
+      );
+    }
+
+    it("ranks regions from darkest to brightest without revealing averages", async function () {
+      await seedRegion("u4pru", 2150);
+      await seedRegion("u4prv", 1800);
+      await seedRegion("u4prw", 2000);
+      const regionCodes = byRegionId(["u4pru", "u4prv", "u4prw"]);
+
+      await expect(
+        connect(signers.alice).requestRankingDecryption(regionCodes),
+      ).to.emit(contract, "RankingRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const ranking = await contract.getRanking(regionCodes);
+      expect(ranking.isRevealed).to.eq(true);
+      expect(ranking.isPending).to.eq(false);
+      const expected: Record<string, number> = { u4pru: 1, u4prw: 2, u4prv: 3 };
+      expect(ranking.ranks.map(Number)).to.deep.eq(
+        regionCodes.map((code) => expected[code]),
+      );
+      expect(ranking.sampleCounts.map(Number)).to.deep.eq([3, 3, 3]);
+    });
+
+    it("gives equal averages the same rank", async function () {
+      await seedRegion("u4pru", 2000);
+      await seedRegion("u4prv", 2000);
+      const regionCodes = byRegionId(["u4pru", "u4prv"]);
+
+      await contract.requestRankingDecryption(regionCodes);
+      await fhevm.awaitDecryptionOracle();
+
+      const ranking = await contract.getRanking(regionCodes);
+      expect(ranking.ranks.map(Number)).to.deep.eq([1, 1]);
+    });
+
+    it("requires regions in ascending region id order", async function () {
+      await seedRegion("u4pru", 2000);
+      await seedRegion("u4prv", 2100);
+      const regionCodes = byRegionId(["u4pru", "u4prv"]).reverse();
+
+      await expect(
+        contract.requestRankingDecryption(regionCodes),
+      ).to.be.revertedWith("Regions not in region id order");
+    });
+
+    it("needs enough samples in every region", async function () {
+      await seedRegion("u4pru", 2000);
+      await submit(signers.bob, "u4prv", { brightness: 2100 });
+
+      await expect(
+        contract.requestRankingDecryption(byRegionId(["u4pru", "u4prv"])),
+      ).to.be.revertedWith("Not enough samples");
+    });
+
+    it("waits for enough new samples before re-ranking a region", async function () {
+      await seedRegion("u4pru", 2000);
+      await seedRegion("u4prv", 2100);
+      const regionCodes = byRegionId(["u4pru", "u4prv"]);
+      await contract.requestRankingDecryption(regionCodes);
+
+      await submit(signers.bob, "u4pru", { brightness: 2200 });
+      await expect(
+        contract.requestRankingDecryption(regionCodes),
+      ).to.be.revertedWith("Not enough new samples");
+    });
+  });
+
+  describe("shared reveal guard", function () {
+    async function seedRegion(regionCode: string, count: number) {
+      await submitBatch(
+        signers.bob,
+        Array.from({ length: count }, () => ({ regionCode, brightness: 2000 })),
+      );
+    }
+
+    it("refuses a ranking one sample after an average reveal", async function () {
+      await seedRegion("u4pru", 3);
+      await seedRegion("u4prv", 3);
+      await contract.requestRegionAverageDecryption("u4pru");
+
+      await submit(signers.bob, "u4pru", { brightness: 1500 });
+      const regionCodes = byRegionId(["u4pru", "u4prv"]);
+      await expect(
+        contract.requestRankingDecryption(regionCodes),
+      ).to.be.revertedWith("Not enough new samples");
+      expect(await contract.regionRevealedSamples("u4pru")).to.eq(3);
+    });
+
+    it("holds back threshold evaluations until enough samples follow an average reveal", async function () {
+      await seedRegion("u4pru", 3);
+      await contract.requestRegionAverageDecryption("u4pru");
+      await setThreshold(signers.alice, "u4pru", 2000);
+
+      await submit(signers.bob, "u4pru", { brightness: 1500 });
+      expect((await contract.thresholdAlerts("u4pru")).isPending).to.eq(false);
+
+      await seedRegion("u4pru", 2);
+      const alert = await contract.thresholdAlerts("u4pru");
+      expect(alert.isPending).to.eq(true);
+      expect(alert.requestedSampleCount).to.eq(6);
+    });
+
+    it("refuses an average reveal one sample after a threshold evaluation", async function () {
+      await setThreshold(signers.alice, "u4pru", 2000);
+      await seedRegion("u4pru", 3);
+      await submit(signers.bob, "u4pru", { brightness: 1500 });
+
+      await expect(
+        contract.requestRegionAverageDecryption("u4pru"),
+      ).to.be.revertedWith("Not enough new samples");
+    });
+
+    it("allows another feature to reveal at the same sample count", async function () {
+      await seedRegion("u4pru", 3);
+      await seedRegion("u4prv", 3);
+      await contract.requestRegionAverageDecryption("u4pru");
+
+      const regionCodes = byRegionId(["u4pru", "u4prv"]);
+      await expect(contract.requestRankingDecryption(regionCodes)).to.emit(
+        contract,
+        "RankingRequested",
+      );
+    });
+  });
+});